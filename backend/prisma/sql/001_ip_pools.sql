@@ -0,0 +1,30 @@
+-- IP pools (guacamole_ip_pool) and their reserved ranges. These tables are not part of the
+-- Guacamole schema, so an existing guacamole_db needs them created once before the pool and
+-- IP endpoints can be used:
+--
+--   pnpm db:ip-pools
+--
+-- which runs this file with `prisma db execute` against DATABASE_URL. It is safe to re-run.
+
+CREATE TABLE IF NOT EXISTS `guacamole_ip_pool` (
+  `pool_id` int(11) NOT NULL AUTO_INCREMENT,
+  `pool_name` varchar(128) NOT NULL,
+  `cidr` varchar(64) NOT NULL,
+  `gateway` varchar(256) NOT NULL,
+  `group_name` varchar(128) NOT NULL,
+  PRIMARY KEY (`pool_id`),
+  UNIQUE KEY `pool_name` (`pool_name`),
+  KEY `group_name` (`group_name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8 COLLATE=utf8_general_ci;
+
+CREATE TABLE IF NOT EXISTS `guacamole_ip_pool_reserved_range` (
+  `range_id` int(11) NOT NULL AUTO_INCREMENT,
+  `pool_id` int(11) NOT NULL,
+  `start_ip` varchar(256) NOT NULL,
+  `end_ip` varchar(256) NOT NULL,
+  `description` varchar(256) DEFAULT NULL,
+  PRIMARY KEY (`range_id`),
+  KEY `pool_id` (`pool_id`),
+  CONSTRAINT `guacamole_ip_pool_reserved_range_ibfk_1` FOREIGN KEY (`pool_id`)
+    REFERENCES `guacamole_ip_pool` (`pool_id`) ON DELETE CASCADE ON UPDATE RESTRICT
+) ENGINE=InnoDB DEFAULT CHARSET=utf8 COLLATE=utf8_general_ci;
@@ -0,0 +1,17 @@
+import { SecurityConfig } from '../types/index';
+
+type AuthConfig = Pick<
+  SecurityConfig,
+  'jwtSecret' | 'jwtRefreshSecret' | 'jwtExpiresIn' | 'jwtRefreshExpiresIn'
+>;
+
+if (!process.env.JWT_SECRET || !process.env.JWT_REFRESH_SECRET) {
+  throw new Error('JWT_SECRET and JWT_REFRESH_SECRET must be set');
+}
+
+export const authConfig: AuthConfig = {
+  jwtSecret: process.env.JWT_SECRET,
+  jwtRefreshSecret: process.env.JWT_REFRESH_SECRET,
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+  jwtRefreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+};
@@ -0,0 +1,12 @@
+export interface LeaseReclaimConfig {
+  enabled: boolean;
+  idleMinutes: number;
+  intervalMillis: number;
+}
+
+export const leaseReclaimConfig: LeaseReclaimConfig = {
+  // opt-in: the worker releases leases, so it only runs once explicitly enabled
+  enabled: process.env.LEASE_RECLAIM_ENABLED === 'true',
+  idleMinutes: parseInt(process.env.LEASE_RECLAIM_IDLE_MINUTES || '120'),
+  intervalMillis: parseInt(process.env.LEASE_RECLAIM_INTERVAL || '60000'), // 1 minute
+};
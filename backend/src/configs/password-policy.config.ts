@@ -0,0 +1,19 @@
+export interface PasswordPolicyConfig {
+  minLength: number;
+  requireMixedCase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  prohibitUsername: boolean;
+  historySize: number; // a new password may not match the current or the last N ones (0 = off)
+  maxAgeDays: number; // older passwords are marked expired at login (0 = never)
+}
+
+export const passwordPolicyConfig: PasswordPolicyConfig = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '12'),
+  requireMixedCase: process.env.PASSWORD_REQUIRE_MIXED_CASE !== 'false',
+  requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== 'false',
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+  prohibitUsername: process.env.PASSWORD_PROHIBIT_USERNAME !== 'false',
+  historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5'),
+  maxAgeDays: parseInt(process.env.PASSWORD_MAX_AGE_DAYS || '0'),
+};
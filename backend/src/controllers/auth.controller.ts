@@ -0,0 +1,48 @@
+// controllers/auth.controller.ts
+import { login, refreshTokens } from "../services/auth.service";
+import { loginSchema, refreshSchema } from "../validators/auth.validators";
+import { logSecurityEvent } from "../configs/logger.config";
+import { statusCodeOf } from "../utils/app-error";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { AuthenticatedRequest, LoginRequest } from "../types/index";
+import { Request, Response } from "express";
+
+export const loginUser = async (req: Request, res: Response) => {
+  try {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const { user, tokens } = await login(parsed.data as LoginRequest);
+    res.status(200).json({ success: true, message: "Logged in", data: { user, ...tokens } });
+  } catch (error: any) {
+    if (statusCodeOf(error) === 401 || statusCodeOf(error) === 403) {
+      logSecurityEvent("login_failed", { ip: req.ip, username: req.body?.username, severity: "medium" });
+    }
+    res.status(statusCodeOf(error)).json({ success: false, message: "Login failed", error: error.message });
+  }
+};
+
+export const refreshUserTokens = async (req: Request, res: Response) => {
+  try {
+    const parsed = refreshSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const tokens = await refreshTokens(parsed.data.refreshToken);
+    res.status(200).json({ success: true, message: "Tokens refreshed", data: tokens });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Token refresh failed", error: error.message });
+  }
+};
+
+export const getCurrentUser = (req: AuthenticatedRequest, res: Response) => {
+  const { userId, username, email, role, permissions } = req.user;
+  res.status(200).json({ success: true, data: { userId, username, email, role, permissions } });
+};
@@ -0,0 +1,108 @@
+// controllers/connection-group.controller.ts
+import {
+  createConnectionGroup,
+  deleteConnectionGroup,
+  getConnectionGroup,
+  getConnectionGroupTree,
+  updateConnectionGroup,
+} from "../services/connection-group.service";
+import {
+  deleteConnectionGroupSchema,
+  guacamoleConnectionGroupSchema,
+} from "../validators/connection.validators";
+import { statusCodeOf } from "../utils/app-error";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { AuthenticatedRequest } from "../types/index";
+import { Request, Response } from "express";
+
+function parseConnectionGroupId(req: Request): number | null {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export const getGuacamoleConnectionGroupTree = async (req: Request, res: Response) => {
+  try {
+    const tree = await getConnectionGroupTree();
+    res
+      .status(200)
+      .json({ success: true, message: "Connection group tree fetched successfully", data: tree });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ success: false, message: "Error fetching connection groups", error: error.message });
+  }
+};
+
+export const getGuacamoleConnectionGroup = async (req: Request, res: Response) => {
+  try {
+    const id = parseConnectionGroupId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid connection group id" });
+
+    const group = await getConnectionGroup(id);
+    res.status(200).json({ success: true, message: "Connection group fetched successfully", data: group });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error fetching connection group", error: error.message });
+  }
+};
+
+export const createGuacamoleConnectionGroup = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = guacamoleConnectionGroupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const group = await createConnectionGroup(parsed.data, req.user);
+    res.status(201).json({ success: true, message: "Connection group created", data: group });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error creating connection group", error: error.message });
+  }
+};
+
+export const updateGuacamoleConnectionGroup = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = parseConnectionGroupId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid connection group id" });
+
+    const parsed = guacamoleConnectionGroupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const group = await updateConnectionGroup(id, parsed.data, req.user);
+    res.status(200).json({ success: true, message: "Connection group updated", data: group });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error updating connection group", error: error.message });
+  }
+};
+
+export const deleteGuacamoleConnectionGroup = async (req: Request, res: Response) => {
+  try {
+    const id = parseConnectionGroupId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid connection group id" });
+
+    const parsed = deleteConnectionGroupSchema.safeParse(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    await deleteConnectionGroup(id, parsed.data.force === "true");
+    res.status(200).json({ success: true, message: "Connection group deleted" });
+  } catch (error: any) {
+    res.status(statusCodeOf(error)).json({
+      success: false,
+      message: "Error deleting connection group",
+      error: error.message,
+      data: error.details,
+    });
+  }
+};
@@ -0,0 +1,123 @@
+// controllers/connection.controller.ts
+import {
+  createConnection,
+  deleteConnection,
+  getConnection,
+  listConnections,
+  provisionConnections,
+  updateConnection,
+} from "../services/connection.service";
+import {
+  connectionFiltersSchema,
+  guacamoleConnectionSchema,
+  provisionConnectionsSchema,
+} from "../validators/connection.validators";
+import { statusCodeOf } from "../utils/app-error";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { AuthenticatedRequest } from "../types/index";
+import { Request, Response } from "express";
+
+function parseConnectionId(req: Request): number | null {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export const getGuacamoleConnections = async (req: Request, res: Response) => {
+  try {
+    const parsed = connectionFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const connections = await listConnections(parsed.data);
+    res.status(200).json({ success: true, message: "Connections fetched successfully", data: connections });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: "Error fetching connections", error: error.message });
+  }
+};
+
+export const getGuacamoleConnection = async (req: Request, res: Response) => {
+  try {
+    const id = parseConnectionId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid connection id" });
+
+    const connection = await getConnection(id);
+    res.status(200).json({ success: true, message: "Connection fetched successfully", data: connection });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error fetching connection", error: error.message });
+  }
+};
+
+export const createGuacamoleConnection = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = guacamoleConnectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const connection = await createConnection(parsed.data, req.user);
+    res.status(201).json({ success: true, message: "Connection created", data: connection });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error creating connection", error: error.message });
+  }
+};
+
+export const updateGuacamoleConnection = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = parseConnectionId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid connection id" });
+
+    const parsed = guacamoleConnectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const connection = await updateConnection(id, parsed.data, req.user);
+    res.status(200).json({ success: true, message: "Connection updated", data: connection });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error updating connection", error: error.message });
+  }
+};
+
+export const deleteGuacamoleConnection = async (req: Request, res: Response) => {
+  try {
+    const id = parseConnectionId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid connection id" });
+
+    await deleteConnection(id);
+    res.status(200).json({ success: true, message: "Connection deleted" });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error deleting connection", error: error.message });
+  }
+};
+
+export const provisionGuacamoleConnections = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = await provisionConnectionsSchema.safeParseAsync(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const { group, ips, template } = parsed.data;
+    const connections = await provisionConnections(group, template, ips, req.user);
+    res
+      .status(201)
+      .json({ success: true, message: `${connections.length} connection(s) created`, data: connections });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error provisioning connections", error: error.message });
+  }
+};
@@ -0,0 +1,47 @@
+// controllers/history.controller.ts
+import { listLoginHistory, listSessionHistory } from "../services/history.service";
+import { loginHistorySchema, sessionHistorySchema } from "../validators/history.validators";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { Request, Response } from "express";
+
+export const getSessionHistory = async (req: Request, res: Response) => {
+  try {
+    const parsed = sessionHistorySchema.safeParse(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const { page, limit } = parsed.data;
+    const { rows, total } = await listSessionHistory(parsed.data);
+    res.status(200).json({
+      success: true,
+      message: "Session history fetched successfully",
+      data: rows,
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: "Error fetching session history", error: error.message });
+  }
+};
+
+export const getLoginHistory = async (req: Request, res: Response) => {
+  try {
+    const parsed = loginHistorySchema.safeParse(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const { page, limit } = parsed.data;
+    const { rows, total } = await listLoginHistory(parsed.data);
+    res.status(200).json({
+      success: true,
+      message: "Login history fetched successfully",
+      data: rows,
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: "Error fetching login history", error: error.message });
+  }
+};
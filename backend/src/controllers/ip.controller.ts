@@ -3,31 +3,37 @@ import {
   fetchGuacamoleUserAvailableIPs,
   updateGuacamoleUserAvailableIP,
   createBulkGuacamoleIPs,
+  previewBulkGuacamoleIPs,
+  deleteGuacamoleIPs,
 } from "../services/ip.service";
 import {
   updateGuacamoleUserAvailableIPSchema,
   createGuacamoleUserAvailableIPSchema,
+  deleteGuacamoleIPsSchema,
+  deleteGuacamoleIPSchema,
+  listGuacamoleIPsSchema,
 } from "../validators/ip.validators";
+import { statusCodeOf } from "../utils/app-error";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { logAuditEvent } from "../configs/logger.config";
+import { AuthenticatedRequest } from "../types/index";
 import { Request, Response } from "express";
 
-function zodIssuesToMap(issues: any[]) {
-  const map: Record<string, string[]> = {};
-  for (const issue of issues) {
-    const path =
-      Array.isArray(issue.path) && issue.path.length > 0 ? issue.path.join(".") : issue.path || "root";
-    if (!map[path]) map[path] = [];
-    map[path].push(issue.message);
-  }
-  return map;
-}
-
-export const getGuacamoleUserAvailableIPs = async (req: Request, res: Response): Promise<void> => {
+export const getGuacamoleUserAvailableIPs = async (req: Request, res: Response) => {
   try {
-    const availableIPs = await fetchGuacamoleUserAvailableIPs();
+    const parsed = listGuacamoleIPsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const { page, limit } = parsed.data;
+    const { rows, total } = await fetchGuacamoleUserAvailableIPs(parsed.data);
     res.status(200).json({
       success: true,
       message: "Available IPs fetched successfully",
-      data: availableIPs,
+      data: rows,
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
     });
   } catch (error: any) {
     res.status(500).json({ success: false, message: "Error fetching available IPs", error: error.message });
@@ -38,58 +44,111 @@ export const updateGuacamoleUserAvailableIPs = async (req: Request, res: Respons
   try {
     const incoming = req.body;
     console.log({ incoming });
-    const parsed = updateGuacamoleUserAvailableIPSchema.safeParse(incoming);
+    const parsed = await updateGuacamoleUserAvailableIPSchema.safeParseAsync(incoming);
 
     if (!parsed.success) {
       const errors = zodIssuesToMap(parsed.error.issues);
       return res.status(400).json({ success: false, message: "Invalid input data", errors });
     }
 
-    await updateGuacamoleUserAvailableIP(parsed.data);
+    // ?syncHostnames=false leaves connection hostname parameters alone
+    const results = await updateGuacamoleUserAvailableIP(parsed.data, {
+      syncHostnames: req.query.syncHostnames !== "false",
+    });
+    const summary = { updated: 0, unchanged: 0, failed: 0, connections: 0 };
+    for (const r of results) {
+      summary[r.status]++;
+      summary.connections += r.connections?.length ?? 0;
+    }
 
     res.status(200).json({
       success: true,
-      message: "IP(s) updated successfully",
+      message:
+        `${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed` +
+        (summary.connections ? `; ${summary.connections} connection hostname(s) updated` : ""),
+      data: { summary, results },
     });
   } catch (error: any) {
-    res.status(500).json({ success: false, message: "Error updating IP(s)", error: error.message });
+    // on 409 `data.conflicts` holds the current server state of the rows that changed
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error updating IP(s)", error: error.message, data: error.details });
   }
 };
 
-export const createGuacamoleUserAvailableIPs = async (req: Request, res: Response) => {
+export const createGuacamoleUserAvailableIPs = async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const parsed = createGuacamoleUserAvailableIPSchema.safeParse(req.body);
+    const parsed = await createGuacamoleUserAvailableIPSchema.safeParseAsync(req.body);
     if (!parsed.success) {
       const errors = zodIssuesToMap(parsed.error.issues);
       return res.status(400).json({ success: false, message: "Invalid input data", errors });
     }
 
-    const { count, allocations, ips } = parsed.data;
+    const { count, allocations, ips, connectionTemplate } = parsed.data;
+
+    // ?dryRun=true runs the same allocation logic and reports what would be created, writing nothing
+    if (req.query.dryRun === "true") {
+      const plan = await previewBulkGuacamoleIPs(
+        allocations,
+        count,
+        ips?.length ? ips : undefined,
+        connectionTemplate,
+        req.user
+      );
+      return res.status(200).json({ success: true, message: "Dry run: nothing was created", data: plan });
+    }
 
     if (Array.isArray(ips) && ips.length > 0) {
-      const created = await createBulkGuacamoleIPs(allocations, count, ips);
+      const created = await createBulkGuacamoleIPs(
+        allocations,
+        count,
+        ips,
+        connectionTemplate,
+        req.user
+      );
       return res.status(201).json({ success: true, message: "IPs created", data: created });
     }
 
-    // Server-side generation per allocation from its firstIp
-    const ipsToUse: string[] = [];
-    for (const a of allocations) {
-      const start = a.firstIp!;
-      const parts = start.split(".").map(Number);
-      let curr = [...parts];
-      for (let i = 0; i < a.amount; i++) {
-        ipsToUse.push(curr.join("."));
-        for (let j = 3; j >= 0; j--) {
-          curr[j] = (curr[j] ?? 0) + 1;
-          if (curr[j] <= 255) break;
-          curr[j] = 0;
-        }
-      }
+    // Server-side generation per allocation, walking its pool from firstIp
+    const created = await createBulkGuacamoleIPs(
+      allocations,
+      count,
+      undefined,
+      connectionTemplate,
+      req.user
+    );
+    return res.status(201).json({ success: true, message: "IPs created", data: created });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error creating IPs", error: error.message });
+  }
+};
+
+// DELETE /:ip and DELETE /?group=&gateway=&cidr= share this; leased rows need ?force=true
+export const deleteGuacamoleUserAvailableIPs = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = req.params.ip
+      ? await deleteGuacamoleIPSchema.safeParseAsync({ ...req.query, ip: req.params.ip })
+      : await deleteGuacamoleIPsSchema.safeParseAsync(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
     }
 
-    const created = await createBulkGuacamoleIPs(allocations, count, ipsToUse);
-    return res.status(201).json({ success: true, message: "IPs created", data: created });
+    const { force, ...filter } = parsed.data;
+    const removed = await deleteGuacamoleIPs(filter, force === "true");
+
+    logAuditEvent("delete_ips", JSON.stringify(filter), req.user?.username, {
+      force: force === "true",
+      ips: removed.map((r) => r.ip),
+      leased: removed.filter((r) => r.leased).map((r) => ({ ip: r.ip, holder: r.username })),
+    });
+    res.status(200).json({ success: true, message: `${removed.length} IP(s) deleted`, data: removed });
   } catch (error: any) {
-    res.status(500).json({ success: false, message: "Error creating IPs", error: error.message });
+    // on 409 `data.leased` lists the rows that are still leased
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error deleting IPs", error: error.message, data: error.details });
   }
 };
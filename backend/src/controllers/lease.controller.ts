@@ -0,0 +1,90 @@
+// controllers/lease.controller.ts
+import { getLease, leaseIp, listLeases, releaseLease } from "../services/lease.service";
+import { reclaimIdleLeases } from "../services/lease-reclaim.service";
+import { leaseFiltersSchema, leaseIPSchema, reclaimLeasesSchema } from "../validators/lease.validators";
+import { statusCodeOf } from "../utils/app-error";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { isIPv4 } from "../utils/ip.utils";
+import { logAuditEvent } from "../configs/logger.config";
+import { AuthenticatedRequest } from "../types/index";
+import { Request, Response } from "express";
+
+export const getGuacamoleLeases = async (req: Request, res: Response) => {
+  try {
+    const parsed = leaseFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid filters", errors });
+    }
+
+    const leases = await listLeases(parsed.data);
+    res.status(200).json({ success: true, message: "Leases fetched successfully", data: leases });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: "Error fetching leases", error: error.message });
+  }
+};
+
+export const getGuacamoleLease = async (req: Request, res: Response) => {
+  try {
+    if (!isIPv4(req.params.ip)) return res.status(400).json({ success: false, message: "Invalid IP" });
+
+    const lease = await getLease(req.params.ip);
+    res.status(200).json({ success: true, message: "Lease fetched successfully", data: lease });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error fetching lease", error: error.message });
+  }
+};
+
+export const createGuacamoleLease = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = leaseIPSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const lease = await leaseIp(parsed.data);
+    logAuditEvent("lease_ip", lease.ip, req.user?.username, {
+      holder: lease.username,
+      group: lease.group_name,
+    });
+    res.status(201).json({ success: true, message: "IP leased", data: lease });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error leasing IP", error: error.message });
+  }
+};
+
+export const releaseGuacamoleLease = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isIPv4(req.params.ip)) return res.status(400).json({ success: false, message: "Invalid IP" });
+
+    const released = await releaseLease(req.params.ip);
+    logAuditEvent("release_ip", released.ip, req.user?.username, { holder: released.username });
+    res.status(200).json({ success: true, message: "Lease released", data: released });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error releasing lease", error: error.message });
+  }
+};
+
+export const reclaimGuacamoleLeases = async (req: Request, res: Response) => {
+  try {
+    const parsed = reclaimLeasesSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const reclaimed = await reclaimIdleLeases(parsed.data.idleMinutes);
+    res
+      .status(200)
+      .json({ success: true, message: `Reclaimed ${reclaimed.length} lease(s)`, data: reclaimed });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: "Error reclaiming leases", error: error.message });
+  }
+};
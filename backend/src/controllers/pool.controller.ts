@@ -0,0 +1,85 @@
+// controllers/pool.controller.ts
+import { createPool, deletePool, getPool, listPools, updatePool } from "../services/pool.service";
+import { guacamolePoolSchema } from "../validators/pool.validators";
+import { statusCodeOf } from "../utils/app-error";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { Request, Response } from "express";
+
+function parsePoolId(req: Request): number | null {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export const getGuacamolePools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pools = await listPools();
+    res.status(200).json({ success: true, message: "Pools fetched successfully", data: pools });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: "Error fetching pools", error: error.message });
+  }
+};
+
+export const getGuacamolePool = async (req: Request, res: Response) => {
+  try {
+    const id = parsePoolId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid pool id" });
+
+    const pool = await getPool(id);
+    res.status(200).json({ success: true, message: "Pool fetched successfully", data: pool });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error fetching pool", error: error.message });
+  }
+};
+
+export const createGuacamolePool = async (req: Request, res: Response) => {
+  try {
+    const parsed = await guacamolePoolSchema.safeParseAsync(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const pool = await createPool(parsed.data);
+    res.status(201).json({ success: true, message: "Pool created", data: pool });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error creating pool", error: error.message });
+  }
+};
+
+export const updateGuacamolePool = async (req: Request, res: Response) => {
+  try {
+    const id = parsePoolId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid pool id" });
+
+    const parsed = await guacamolePoolSchema.safeParseAsync(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const pool = await updatePool(id, parsed.data);
+    res.status(200).json({ success: true, message: "Pool updated", data: pool });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error updating pool", error: error.message });
+  }
+};
+
+export const deleteGuacamolePool = async (req: Request, res: Response) => {
+  try {
+    const id = parsePoolId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid pool id" });
+
+    await deletePool(id);
+    res.status(200).json({ success: true, message: "Pool deleted" });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error deleting pool", error: error.message });
+  }
+};
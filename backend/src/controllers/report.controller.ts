@@ -0,0 +1,36 @@
+// controllers/report.controller.ts
+import { buildReport, reportToCsv, reportToPdf } from "../services/report.service";
+import { reportQuerySchema, reportTypeSchema } from "../validators/report.validators";
+import { logAuditEvent } from "../configs/logger.config";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { AuthenticatedRequest } from "../types/index";
+import { Response } from "express";
+
+export const getReport = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const type = reportTypeSchema.safeParse(req.params.type);
+    const query = reportQuerySchema.safeParse(req.query);
+    if (!type.success || !query.success) {
+      const errors = zodIssuesToMap([
+        ...(type.success ? [] : type.error.issues.map((issue) => ({ ...issue, path: ["type"] }))),
+        ...(query.success ? [] : query.error.issues),
+      ]);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const { format, from, to } = query.data;
+    const report = await buildReport(type.data, { from, to });
+    logAuditEvent("generate_report", type.data, req.user?.username, { format, from, to });
+
+    const filename = `${type.data}-${report.generated_at.toISOString().slice(0, 10)}`;
+    if (format === "csv") {
+      return res.type("text/csv").attachment(`${filename}.csv`).send(reportToCsv(report));
+    }
+    if (format === "pdf") {
+      return res.type("application/pdf").attachment(`${filename}.pdf`).send(reportToPdf(report));
+    }
+    res.status(200).json({ success: true, message: "Report generated successfully", data: report });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: "Error generating report", error: error.message });
+  }
+};
@@ -0,0 +1,141 @@
+// controllers/sharing-profile.controller.ts
+import {
+  createSharingProfile,
+  deleteSharingProfile,
+  getSharingProfile,
+  grantSharingProfile,
+  listSharingProfiles,
+  revokeSharingProfile,
+  updateSharingProfile,
+} from "../services/sharing-profile.service";
+import {
+  createSharingProfileSchema,
+  sharingProfileFiltersSchema,
+  sharingProfileGrantSchema,
+  sharingProfileSchema,
+} from "../validators/sharing-profile.validators";
+import { statusCodeOf } from "../utils/app-error";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { AuthenticatedRequest } from "../types/index";
+import { Request, Response } from "express";
+
+function parseSharingProfileId(req: Request): number | null {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export const getGuacamoleSharingProfiles = async (req: Request, res: Response) => {
+  try {
+    const parsed = sharingProfileFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const profiles = await listSharingProfiles(parsed.data.connection_id);
+    res.status(200).json({ success: true, message: "Sharing profiles fetched successfully", data: profiles });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ success: false, message: "Error fetching sharing profiles", error: error.message });
+  }
+};
+
+export const getGuacamoleSharingProfile = async (req: Request, res: Response) => {
+  try {
+    const id = parseSharingProfileId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid sharing profile id" });
+
+    const profile = await getSharingProfile(id);
+    res.status(200).json({ success: true, message: "Sharing profile fetched successfully", data: profile });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error fetching sharing profile", error: error.message });
+  }
+};
+
+export const createGuacamoleSharingProfile = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = createSharingProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const profile = await createSharingProfile(parsed.data, req.user);
+    res.status(201).json({ success: true, message: "Sharing profile created", data: profile });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error creating sharing profile", error: error.message });
+  }
+};
+
+export const updateGuacamoleSharingProfile = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const id = parseSharingProfileId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid sharing profile id" });
+
+    const parsed = sharingProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const profile = await updateSharingProfile(id, parsed.data, req.user);
+    res.status(200).json({ success: true, message: "Sharing profile updated", data: profile });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error updating sharing profile", error: error.message });
+  }
+};
+
+export const deleteGuacamoleSharingProfile = async (req: Request, res: Response) => {
+  try {
+    const id = parseSharingProfileId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid sharing profile id" });
+
+    await deleteSharingProfile(id);
+    res.status(200).json({ success: true, message: "Sharing profile deleted" });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error deleting sharing profile", error: error.message });
+  }
+};
+
+export const grantGuacamoleSharingProfile = async (req: Request, res: Response) => {
+  try {
+    const id = parseSharingProfileId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid sharing profile id" });
+
+    const parsed = await sharingProfileGrantSchema.safeParseAsync(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const profile = await grantSharingProfile(id, parsed.data.group);
+    res.status(200).json({ success: true, message: `Granted to ${parsed.data.group}`, data: profile });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error granting sharing profile", error: error.message });
+  }
+};
+
+export const revokeGuacamoleSharingProfile = async (req: Request, res: Response) => {
+  try {
+    const id = parseSharingProfileId(req);
+    if (!id) return res.status(400).json({ success: false, message: "Invalid sharing profile id" });
+
+    const profile = await revokeSharingProfile(id, req.params.group);
+    res.status(200).json({ success: true, message: `Revoked from ${req.params.group}`, data: profile });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error revoking sharing profile", error: error.message });
+  }
+};
@@ -0,0 +1,108 @@
+// controllers/user.controller.ts
+import {
+  createUser,
+  deleteUser,
+  getUser,
+  listUsers,
+  setUserPassword,
+  updateUser,
+} from "../services/user.service";
+import { createUserSchema, setPasswordSchema, updateUserSchema } from "../validators/user.validators";
+import { statusCodeOf } from "../utils/app-error";
+import { zodIssuesToMap } from "../utils/zod.utils";
+import { logAuditEvent } from "../configs/logger.config";
+import { AuthenticatedRequest } from "../types/index";
+import { Request, Response } from "express";
+
+export const getGuacamoleUsers = async (req: Request, res: Response) => {
+  try {
+    const users = await listUsers();
+    res.status(200).json({ success: true, message: "Users fetched successfully", data: users });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: "Error fetching users", error: error.message });
+  }
+};
+
+export const getGuacamoleUser = async (req: Request, res: Response) => {
+  try {
+    const user = await getUser(req.params.username);
+    res.status(200).json({ success: true, message: "User fetched successfully", data: user });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error fetching user", error: error.message });
+  }
+};
+
+export const createGuacamoleUser = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = createUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const user = await createUser(parsed.data, req.user?.entityId);
+    logAuditEvent("create_user", user.username, req.user?.username);
+    res.status(201).json({ success: true, message: "User created", data: user });
+  } catch (error: any) {
+    // password policy failures come back in the same `errors` shape as invalid input
+    res.status(statusCodeOf(error)).json({
+      success: false,
+      message: "Error creating user",
+      error: error.message,
+      errors: error.details,
+    });
+  }
+};
+
+export const updateGuacamoleUser = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = updateUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const user = await updateUser(req.params.username, parsed.data);
+    logAuditEvent("update_user", user.username, req.user?.username, { changes: parsed.data });
+    res.status(200).json({ success: true, message: "User updated", data: user });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error updating user", error: error.message });
+  }
+};
+
+export const setGuacamoleUserPassword = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const parsed = setPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: "Invalid input data", errors });
+    }
+
+    const user = await setUserPassword(req.params.username, parsed.data.password);
+    logAuditEvent("set_user_password", user.username, req.user?.username);
+    res.status(200).json({ success: true, message: "Password changed", data: user });
+  } catch (error: any) {
+    res.status(statusCodeOf(error)).json({
+      success: false,
+      message: "Error changing password",
+      error: error.message,
+      errors: error.details,
+    });
+  }
+};
+
+export const deleteGuacamoleUser = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await deleteUser(req.params.username);
+    logAuditEvent("delete_user", req.params.username, req.user?.username);
+    res.status(200).json({ success: true, message: "User deleted" });
+  } catch (error: any) {
+    res
+      .status(statusCodeOf(error))
+      .json({ success: false, message: "Error deleting user", error: error.message });
+  }
+};
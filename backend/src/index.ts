@@ -7,6 +7,7 @@ import logger from './configs/logger.config';
 import { errorHandler } from './middlewares/error-handler.middleware';
 import { createServer } from 'node:http';
 import apiRoutes from './routes';
+import { startLeaseReclaimWorker } from './services/lease-reclaim.service';
 
 const app: Application = express();
 
@@ -71,6 +72,9 @@ async function startServer(): Promise<void> {
     server.listen(PORT, () => {
       logger.info(`Security Threat Analysis Platform running on port ${PORT}`);
     });
+
+    // Release IP leases of users who have been idle too long
+    startLeaseReclaimWorker();
   } catch (error) {
     logger.error('Server startup failed:', error);
     process.exit(1);
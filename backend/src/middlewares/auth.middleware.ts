@@ -0,0 +1,26 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../types/index';
+import { verifyAccessToken } from '../services/auth.service';
+import { logSecurityEvent } from '../configs/logger.config';
+
+/**
+ * Require a valid `Authorization: Bearer <access token>` header.
+ * The decoded token payload is attached to `req.user`.
+ */
+export const authenticate = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  const header = req.headers.authorization ?? '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    res.status(401).json({ success: false, message: 'Authentication required' });
+    return;
+  }
+
+  try {
+    req.user = verifyAccessToken(token);
+    next();
+  } catch (e: any) {
+    logSecurityEvent('invalid_access_token', { ip: req.ip, path: req.originalUrl, severity: 'low' });
+    res.status(401).json({ success: false, message: e.message });
+  }
+};
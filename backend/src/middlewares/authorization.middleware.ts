@@ -0,0 +1,77 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { AuthenticatedRequest, ObjectPermission, Role, SystemPermission } from '../types/index';
+import {
+  hasObjectPermission,
+  hasSystemPermission,
+  OBJECT_PERMISSION_TABLES,
+  ObjectKind,
+} from '../services/policy.service';
+import { logSecurityEvent } from '../configs/logger.config';
+
+// Policy middlewares. Each must run after `authenticate`, which attaches the token claims to req.user.
+
+function deny(req: AuthenticatedRequest, res: Response, reason: string): void {
+  logSecurityEvent('access_denied', {
+    username: req.user?.username,
+    method: req.method,
+    path: req.originalUrl,
+    reason,
+    severity: 'low',
+  });
+  res.status(403).json({ success: false, message: reason });
+}
+
+/** Allow only callers whose derived role is one of `roles`. */
+export const requireRole =
+  (...roles: Role[]): RequestHandler =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (req.user && roles.includes(req.user.role)) return next();
+    deny(req, res, `One of roles ${roles.join(', ')} required`);
+  };
+
+/** Allow callers holding the Guacamole system permission (ADMINISTER implies all). */
+export const requireSystemPermission =
+  (permission: SystemPermission): RequestHandler =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (req.user && hasSystemPermission(req.user, permission)) return next();
+    deny(req, res, `${permission} permission required`);
+  };
+
+// Route parameter naming the object when none is given
+const DEFAULT_OBJECT_PARAM: Record<ObjectKind, string> = {
+  user: 'username',
+  user_group: 'name',
+  connection: 'id',
+  connection_group: 'id',
+  sharing_profile: 'id',
+};
+
+/**
+ * Allow callers holding `permission` on the object named by the route parameter `idParam`
+ * (`:username` for users, `:name` for user groups, `:id` otherwise) or, for objects named in
+ * the body, by `idParam(req)`; either directly, through group membership, or via ADMINISTER.
+ */
+export const requireObjectPermission =
+  (
+    kind: ObjectKind,
+    permission: ObjectPermission,
+    idParam: string | ((req: AuthenticatedRequest) => unknown) = DEFAULT_OBJECT_PARAM[kind]
+  ): RequestHandler =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { label, named } = OBJECT_PERMISSION_TABLES[kind];
+      const raw = typeof idParam === 'function' ? idParam(req) : req.params[idParam];
+      const object = named ? raw : Number(raw);
+      const valid = named ? typeof object === 'string' && object !== '' : Number.isInteger(object);
+      if (!valid) {
+        res.status(400).json({ success: false, message: `Invalid ${label} ${named ? 'name' : 'id'}` });
+        return;
+      }
+      if (req.user && (await hasObjectPermission(req.user, kind, object as string | number, permission))) {
+        return next();
+      }
+      deny(req, res, `${permission} permission on ${label} ${raw} required`);
+    } catch (e) {
+      next(e);
+    }
+  };
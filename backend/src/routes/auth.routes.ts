@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { loginUser, refreshUserTokens, getCurrentUser } from '../controllers/auth.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+
+const router: Router = Router();
+
+router.post('/login', loginUser);
+router.post('/refresh', refreshUserTokens);
+router.get('/me', authenticate, getCurrentUser);
+
+export default router;
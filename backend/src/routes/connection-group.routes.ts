@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+  getGuacamoleConnectionGroupTree,
+  getGuacamoleConnectionGroup,
+  createGuacamoleConnectionGroup,
+  updateGuacamoleConnectionGroup,
+  deleteGuacamoleConnectionGroup,
+} from '../controllers/connection-group.controller';
+import {
+  requireObjectPermission,
+  requireRole,
+  requireSystemPermission,
+} from '../middlewares/authorization.middleware';
+
+const router: Router = Router();
+
+router.get('/', requireRole('admin', 'operator'), getGuacamoleConnectionGroupTree);
+router.get('/:id', requireObjectPermission('connection_group', 'READ'), getGuacamoleConnectionGroup);
+router.post('/', requireSystemPermission('CREATE_CONNECTION_GROUP'), createGuacamoleConnectionGroup);
+router.put('/:id', requireObjectPermission('connection_group', 'UPDATE'), updateGuacamoleConnectionGroup);
+router.delete('/:id', requireObjectPermission('connection_group', 'DELETE'), deleteGuacamoleConnectionGroup);
+
+export default router;
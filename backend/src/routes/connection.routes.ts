@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  getGuacamoleConnections,
+  getGuacamoleConnection,
+  createGuacamoleConnection,
+  updateGuacamoleConnection,
+  deleteGuacamoleConnection,
+  provisionGuacamoleConnections,
+} from '../controllers/connection.controller';
+import {
+  requireObjectPermission,
+  requireRole,
+  requireSystemPermission,
+} from '../middlewares/authorization.middleware';
+
+const router: Router = Router();
+
+router.get('/', requireRole('admin', 'operator'), getGuacamoleConnections);
+router.get('/:id', requireObjectPermission('connection', 'READ'), getGuacamoleConnection);
+router.post('/', requireSystemPermission('CREATE_CONNECTION'), createGuacamoleConnection);
+// Provisioning links IP rows of the group and grants it READ, so it also needs UPDATE on the group
+router.post(
+  '/provision',
+  requireSystemPermission('CREATE_CONNECTION'),
+  requireObjectPermission('user_group', 'UPDATE', (req) => req.body?.group),
+  provisionGuacamoleConnections
+);
+router.put('/:id', requireObjectPermission('connection', 'UPDATE'), updateGuacamoleConnection);
+router.delete('/:id', requireObjectPermission('connection', 'DELETE'), deleteGuacamoleConnection);
+
+export default router;
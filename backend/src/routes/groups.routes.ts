@@ -1,10 +1,40 @@
 import { Application, Router } from 'express';
 import { Request, Response } from 'express';
-import { createGroup, deleteGroupByName, listGroups } from '@/services/group.service';
+import {
+  addGroupMember,
+  createGroup,
+  deleteGroupByName,
+  getGroupAttributes,
+  groupDeletionImpact,
+  listGroupMembers,
+  listGroups,
+  removeGroupMember,
+  updateGroup,
+  updateGroupAttributes,
+} from '@/services/group.service';
+import {
+  deleteGroupSchema,
+  groupAttributesSchema,
+  groupMemberSchema,
+  updateGroupSchema,
+} from '@/validators/group.validators';
+import { statusCodeOf } from '@/utils/app-error';
+import { zodIssuesToMap } from '@/utils/zod.utils';
+import {
+  requireObjectPermission,
+  requireRole,
+  requireSystemPermission,
+} from '@/middlewares/authorization.middleware';
+import { AuthenticatedRequest } from '@/types/index';
+import { logAuditEvent } from '@/configs/logger.config';
 
 const router: Router = Router();
 
-router.get('/', async (_: Request, res: Response) => {
+// Per-group policies; the group is the route's :name
+const canUpdateGroup = requireObjectPermission('user_group', 'UPDATE');
+const canAdministerGroup = requireObjectPermission('user_group', 'ADMINISTER');
+
+router.get('/', requireRole('admin', 'operator'), async (_: Request, res: Response) => {
   try {
     const data = await listGroups();
     res.json({ success: true, data });
@@ -13,25 +43,138 @@ router.get('/', async (_: Request, res: Response) => {
   }
 });
 
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireSystemPermission('CREATE_USER_GROUP'), async (req: Request, res: Response) => {
   try {
     const { name } = req.body as { name: string };
     if (!name?.trim()) return res.status(400).json({ success: false, message: 'name required' });
-    const data = await createGroup(name.trim());
+    const data = await createGroup(name.trim(), (req as AuthenticatedRequest).user.entityId);
     res.status(201).json({ success: true, data });
   } catch (e: any) {
     res.status(500).json({ success: false, message: e.message });
   }
 });
 
-router.delete('/:name', async (req: Request, res: Response) => {
+// Rename (carried over to IP rows and pools) and/or enable/disable a group
+router.patch('/:name', canUpdateGroup, async (req: Request, res: Response) => {
+  try {
+    const parsed = updateGroupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: 'Invalid input data', errors });
+    }
+    const data = await updateGroup(req.params.name, parsed.data);
+    res.json({ success: true, data });
+  } catch (e: any) {
+    res.status(statusCodeOf(e)).json({ success: false, message: e.message });
+  }
+});
+
+router.get('/:name/impact', requireRole('admin', 'operator'), async (req: Request, res: Response) => {
+  try {
+    const data = await groupDeletionImpact(req.params.name);
+    res.json({ success: true, data });
+  } catch (e: any) {
+    res.status(statusCodeOf(e)).json({ success: false, message: e.message });
+  }
+});
+
+// Deleting needs ?confirm=true; otherwise 409 with the impact report. ?reassignTo=<group> keeps the IPs.
+router.delete('/:name', canAdministerGroup, async (req: Request, res: Response) => {
   try {
+    const parsed = deleteGroupSchema.safeParse(req.query);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: 'Invalid input data', errors });
+    }
     const name = req.params.name;
-    await deleteGroupByName(name);
-    res.json({ success: true });
+    const impact = await groupDeletionImpact(name);
+    if (parsed.data.confirm !== 'true') {
+      return res.status(409).json({
+        success: false,
+        message: 'Review the impact and repeat with confirm=true to delete the group',
+        data: impact,
+      });
+    }
+
+    await deleteGroupByName(name, { reassignTo: parsed.data.reassignTo });
+    logAuditEvent('delete_group', name, (req as AuthenticatedRequest).user?.username, {
+      ...impact,
+      reassignTo: parsed.data.reassignTo ?? null,
+    });
+    res.json({ success: true, data: impact });
   } catch (e: any) {
-    res.status(500).json({ success: false, message: e.message });
+    res.status(statusCodeOf(e)).json({ success: false, message: e.message });
+  }
+});
+
+// Membership: member users and nested member groups of a group
+router.get('/:name/members', requireRole('admin', 'operator'), async (req: Request, res: Response) => {
+  try {
+    const data = await listGroupMembers(req.params.name);
+    res.json({ success: true, data });
+  } catch (e: any) {
+    res.status(statusCodeOf(e)).json({ success: false, message: e.message });
+  }
+});
+
+router.post('/:name/members', canUpdateGroup, async (req: Request, res: Response) => {
+  try {
+    const parsed = groupMemberSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const errors = zodIssuesToMap(parsed.error.issues);
+      return res.status(400).json({ success: false, message: 'Invalid input data', errors });
+    }
+    await addGroupMember(req.params.name, parsed.data.type, parsed.data.name);
+    res.status(201).json({ success: true, data: await listGroupMembers(req.params.name) });
+  } catch (e: any) {
+    res.status(statusCodeOf(e)).json({ success: false, message: e.message });
+  }
+});
+
+router.delete(
+  '/:name/members/:type/:member',
+  canUpdateGroup,
+  async (req: Request, res: Response) => {
+    try {
+      const parsed = groupMemberSchema.safeParse({ type: req.params.type, name: req.params.member });
+      if (!parsed.success) {
+        const errors = zodIssuesToMap(parsed.error.issues);
+        return res.status(400).json({ success: false, message: 'Invalid input data', errors });
+      }
+      await removeGroupMember(req.params.name, parsed.data.type, parsed.data.name);
+      res.json({ success: true, data: await listGroupMembers(req.params.name) });
+    } catch (e: any) {
+      res.status(statusCodeOf(e)).json({ success: false, message: e.message });
+    }
+  }
+);
+
+// Extension data kept in guacamole_user_group_attribute
+router.get('/:name/attributes', requireRole('admin', 'operator'), async (req: Request, res: Response) => {
+  try {
+    const data = await getGroupAttributes(req.params.name);
+    res.json({ success: true, data });
+  } catch (e: any) {
+    res.status(statusCodeOf(e)).json({ success: false, message: e.message });
   }
 });
 
+router.patch(
+  '/:name/attributes',
+  canUpdateGroup,
+  async (req: Request, res: Response) => {
+    try {
+      const parsed = groupAttributesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const errors = zodIssuesToMap(parsed.error.issues);
+        return res.status(400).json({ success: false, message: 'Invalid input data', errors });
+      }
+      const data = await updateGroupAttributes(req.params.name, parsed.data);
+      res.json({ success: true, data });
+    } catch (e: any) {
+      res.status(statusCodeOf(e)).json({ success: false, message: e.message });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { getSessionHistory, getLoginHistory } from '../controllers/history.controller';
+import { requireRole } from '../middlewares/authorization.middleware';
+
+const router: Router = Router();
+
+router.get('/sessions', requireRole('admin', 'operator'), getSessionHistory);
+router.get('/logins', requireRole('admin', 'operator'), getLoginHistory);
+
+export default router;
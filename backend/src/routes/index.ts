@@ -1,10 +1,30 @@
 import { Router } from 'express';
 import ipRoutes from './ip.routes';
 import groupsRouter from './groups.routes';
+import poolRoutes from './pool.routes';
+import authRoutes from './auth.routes';
+import leaseRoutes from './lease.routes';
+import connectionRoutes from './connection.routes';
+import connectionGroupRoutes from './connection-group.routes';
+import sharingProfileRoutes from './sharing-profile.routes';
+import userRoutes from './user.routes';
+import historyRoutes from './history.routes';
+import reportRoutes from './report.routes';
+import { authenticate } from '../middlewares/auth.middleware';
 
 const apiRoutes: Router = Router();
 
-apiRoutes.use('/guacamole-ip', ipRoutes);
-apiRoutes.use('/guacamole-groups', groupsRouter);
+// Each router applies its own per-route policy (see middlewares/authorization.middleware.ts)
+apiRoutes.use('/auth', authRoutes);
+apiRoutes.use('/guacamole-ip', authenticate, ipRoutes);
+apiRoutes.use('/guacamole-groups', authenticate, groupsRouter);
+apiRoutes.use('/guacamole-pools', authenticate, poolRoutes);
+apiRoutes.use('/guacamole-leases', authenticate, leaseRoutes);
+apiRoutes.use('/guacamole-connections', authenticate, connectionRoutes);
+apiRoutes.use('/guacamole-connection-groups', authenticate, connectionGroupRoutes);
+apiRoutes.use('/guacamole-sharing-profiles', authenticate, sharingProfileRoutes);
+apiRoutes.use('/guacamole-users', authenticate, userRoutes);
+apiRoutes.use('/guacamole-history', authenticate, historyRoutes);
+apiRoutes.use('/guacamole-reports', authenticate, reportRoutes);
 
 export default apiRoutes;
@@ -3,12 +3,17 @@ import {
   getGuacamoleUserAvailableIPs,
   updateGuacamoleUserAvailableIPs,
   createGuacamoleUserAvailableIPs,
+  deleteGuacamoleUserAvailableIPs,
 } from '../controllers/ip.controller';
+import { requireSystemPermission } from '../middlewares/authorization.middleware';
 
 const router: Router = Router();
 
+// Any authenticated user (including read-only) may list IPs
 router.get('/', getGuacamoleUserAvailableIPs);
-router.put('/', updateGuacamoleUserAvailableIPs);
-router.post('/', createGuacamoleUserAvailableIPs);
+router.put('/', requireSystemPermission('ADMINISTER'), updateGuacamoleUserAvailableIPs);
+router.post('/', requireSystemPermission('ADMINISTER'), createGuacamoleUserAvailableIPs);
+router.delete('/', requireSystemPermission('ADMINISTER'), deleteGuacamoleUserAvailableIPs);
+router.delete('/:ip', requireSystemPermission('ADMINISTER'), deleteGuacamoleUserAvailableIPs);
 
 export default router;
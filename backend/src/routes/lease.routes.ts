@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  getGuacamoleLeases,
+  getGuacamoleLease,
+  createGuacamoleLease,
+  releaseGuacamoleLease,
+  reclaimGuacamoleLeases,
+} from '../controllers/lease.controller';
+import { requireRole, requireSystemPermission } from '../middlewares/authorization.middleware';
+
+const router: Router = Router();
+
+router.get('/', requireRole('admin', 'operator'), getGuacamoleLeases);
+router.get('/:ip', requireRole('admin', 'operator'), getGuacamoleLease);
+router.post('/', requireSystemPermission('ADMINISTER'), createGuacamoleLease);
+router.post('/reclaim', requireSystemPermission('ADMINISTER'), reclaimGuacamoleLeases);
+router.delete('/:ip', requireSystemPermission('ADMINISTER'), releaseGuacamoleLease);
+
+export default router;
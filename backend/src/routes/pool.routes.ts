@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  getGuacamolePools,
+  getGuacamolePool,
+  createGuacamolePool,
+  updateGuacamolePool,
+  deleteGuacamolePool,
+} from '../controllers/pool.controller';
+import { requireRole, requireSystemPermission } from '../middlewares/authorization.middleware';
+
+const router: Router = Router();
+
+router.get('/', requireRole('admin', 'operator'), getGuacamolePools);
+router.get('/:id', requireRole('admin', 'operator'), getGuacamolePool);
+router.post('/', requireSystemPermission('ADMINISTER'), createGuacamolePool);
+router.put('/:id', requireSystemPermission('ADMINISTER'), updateGuacamolePool);
+router.delete('/:id', requireSystemPermission('ADMINISTER'), deleteGuacamolePool);
+
+export default router;
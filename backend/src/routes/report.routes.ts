@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { getReport } from '../controllers/report.controller';
+import { requireRole } from '../middlewares/authorization.middleware';
+
+const router: Router = Router();
+
+// ?format=json|csv|pdf&from=&to=
+router.get('/:type', requireRole('admin', 'operator'), getReport);
+
+export default router;
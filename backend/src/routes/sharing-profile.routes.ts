@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import {
+  getGuacamoleSharingProfiles,
+  getGuacamoleSharingProfile,
+  createGuacamoleSharingProfile,
+  updateGuacamoleSharingProfile,
+  deleteGuacamoleSharingProfile,
+  grantGuacamoleSharingProfile,
+  revokeGuacamoleSharingProfile,
+} from '../controllers/sharing-profile.controller';
+import {
+  requireObjectPermission,
+  requireRole,
+  requireSystemPermission,
+} from '../middlewares/authorization.middleware';
+
+const router: Router = Router();
+
+router.get('/', requireRole('admin', 'operator'), getGuacamoleSharingProfiles);
+router.get('/:id', requireObjectPermission('sharing_profile', 'READ'), getGuacamoleSharingProfile);
+router.post('/', requireSystemPermission('CREATE_SHARING_PROFILE'), createGuacamoleSharingProfile);
+router.put('/:id', requireObjectPermission('sharing_profile', 'UPDATE'), updateGuacamoleSharingProfile);
+router.delete('/:id', requireObjectPermission('sharing_profile', 'DELETE'), deleteGuacamoleSharingProfile);
+
+// Granting access to a profile is managing its permissions, which Guacamole ties to ADMINISTER
+router.post(
+  '/:id/grants',
+  requireObjectPermission('sharing_profile', 'ADMINISTER'),
+  grantGuacamoleSharingProfile
+);
+router.delete(
+  '/:id/grants/:group',
+  requireObjectPermission('sharing_profile', 'ADMINISTER'),
+  revokeGuacamoleSharingProfile
+);
+
+export default router;
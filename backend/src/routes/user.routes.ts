@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import {
+  getGuacamoleUsers,
+  getGuacamoleUser,
+  createGuacamoleUser,
+  updateGuacamoleUser,
+  setGuacamoleUserPassword,
+  deleteGuacamoleUser,
+} from '../controllers/user.controller';
+import {
+  requireObjectPermission,
+  requireRole,
+  requireSystemPermission,
+} from '../middlewares/authorization.middleware';
+
+const router: Router = Router();
+
+router.get('/', requireRole('admin', 'operator'), getGuacamoleUsers);
+router.get('/:username', requireObjectPermission('user', 'READ'), getGuacamoleUser);
+router.post('/', requireSystemPermission('CREATE_USER'), createGuacamoleUser);
+router.patch('/:username', requireObjectPermission('user', 'UPDATE'), updateGuacamoleUser);
+router.put('/:username/password', requireObjectPermission('user', 'UPDATE'), setGuacamoleUserPassword);
+router.delete('/:username', requireObjectPermission('user', 'DELETE'), deleteGuacamoleUser);
+
+export default router;
@@ -0,0 +1,184 @@
+import jwt from 'jsonwebtoken';
+import { prisma } from '@/configs/database';
+import { authConfig } from '@/configs/auth.config';
+import { AuthTokens, JWTPayload, LoginRequest } from '@/types/index';
+import { OperationalError } from '@/utils/app-error';
+import { generateSalt, verifyGuacamolePassword } from '@/utils/guacamole-password.utils';
+import { effectiveSystemPermissions, roleFor } from '@/services/policy.service';
+import { isPasswordTooOld } from '@/services/password-policy.service';
+
+type TokenClaims = Pick<
+  JWTPayload,
+  'userId' | 'entityId' | 'username' | 'email' | 'role' | 'permissions'
+>;
+
+const userSelect = {
+  user_id: true,
+  password_hash: true,
+  password_salt: true,
+  password_date: true,
+  disabled: true,
+  expired: true,
+  access_window_start: true,
+  access_window_end: true,
+  valid_from: true,
+  valid_until: true,
+  timezone: true,
+  email_address: true,
+};
+
+/** Current calendar date (YYYY-MM-DD) and second-of-day in the user's timezone. */
+function localClock(now: Date, timezone?: string | null): { date: string; seconds: number } {
+  let format: Intl.DateTimeFormat;
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  };
+  try {
+    format = new Intl.DateTimeFormat('en-CA', { ...options, timeZone: timezone || undefined });
+  } catch {
+    // unknown zone id: fall back to the server's zone like Guacamole does
+    format = new Intl.DateTimeFormat('en-CA', options);
+  }
+
+  const parts = format.formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '0';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    seconds: Number(part('hour')) * 3600 + Number(part('minute')) * 60 + Number(part('second')),
+  };
+}
+
+// TIME columns come back as 1970-01-01T<time>Z, DATE columns as <date>T00:00:00Z
+const secondsOfDay = (t: Date) => t.getUTCHours() * 3600 + t.getUTCMinutes() * 60 + t.getUTCSeconds();
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+/** Reject accounts Guacamole itself would refuse: disabled, expired, outside validity or access window. */
+function assertAccountUsable(user: any, now = new Date()): void {
+  if (user.disabled) throw new OperationalError('Account is disabled', 403, 'ACCOUNT_DISABLED');
+  if (user.expired) {
+    throw new OperationalError('Password has expired; change it in Guacamole first', 403, 'PASSWORD_EXPIRED');
+  }
+
+  const clock = localClock(now, user.timezone);
+  if (user.valid_from && clock.date < isoDate(user.valid_from)) {
+    throw new OperationalError('Account is not yet valid', 403, 'ACCOUNT_NOT_VALID');
+  }
+  if (user.valid_until && clock.date > isoDate(user.valid_until)) {
+    throw new OperationalError('Account is no longer valid', 403, 'ACCOUNT_NOT_VALID');
+  }
+
+  if (user.access_window_start || user.access_window_end) {
+    const start = user.access_window_start ? secondsOfDay(user.access_window_start) : 0;
+    const end = user.access_window_end ? secondsOfDay(user.access_window_end) : 24 * 3600 - 1;
+    // a window such as 22:00-06:00 wraps past midnight
+    const inside =
+      start <= end
+        ? clock.seconds >= start && clock.seconds <= end
+        : clock.seconds >= start || clock.seconds <= end;
+    if (!inside) {
+      throw new OperationalError('Login is not allowed at this time', 403, 'OUTSIDE_ACCESS_WINDOW');
+    }
+  }
+}
+
+/** Mark the account expired once its password is older than the policy's maximum age. */
+async function expireStalePassword(user: any): Promise<void> {
+  if (user.expired || !isPasswordTooOld(user.password_date)) return;
+  await prisma.guacamole_user.update({ where: { user_id: user.user_id }, data: { expired: true } });
+  user.expired = true;
+}
+
+// Stand-in for unknown usernames, so login hashes a password either way and its timing does not
+// reveal which accounts exist
+const DUMMY_PASSWORD = { password_hash: Buffer.alloc(32), password_salt: generateSalt() };
+
+async function findAccount(username: string) {
+  const entity = await prisma.guacamole_entity.findFirst({
+    where: { name: username, type: 'USER' as any },
+    select: { entity_id: true, name: true, guacamole_user: { select: userSelect } },
+  });
+  return entity?.guacamole_user ? entity : null;
+}
+
+/** Load a Guacamole user by name, check it may log in and build its token claims. */
+async function loadClaims(username: string): Promise<{ claims: TokenClaims; user: any } | null> {
+  const entity = await findAccount(username);
+  return entity && claimsFor(entity);
+}
+
+async function claimsFor(entity: any): Promise<{ claims: TokenClaims; user: any }> {
+  const permissions = await effectiveSystemPermissions(entity.entity_id);
+  const user = entity.guacamole_user;
+  return {
+    user,
+    claims: {
+      userId: String(user.user_id),
+      entityId: entity.entity_id,
+      username: entity.name,
+      email: user.email_address ?? null,
+      role: roleFor(permissions),
+      permissions,
+    },
+  };
+}
+
+export function issueTokens(claims: TokenClaims): AuthTokens {
+  const accessToken = jwt.sign(claims, authConfig.jwtSecret, { expiresIn: authConfig.jwtExpiresIn as any });
+  const refreshToken = jwt.sign(claims, authConfig.jwtRefreshSecret, {
+    expiresIn: authConfig.jwtRefreshExpiresIn as any,
+  });
+  const { iat, exp } = jwt.decode(accessToken) as JWTPayload;
+
+  return { accessToken, refreshToken, expiresIn: exp - iat };
+}
+
+export function verifyAccessToken(token: string): JWTPayload {
+  try {
+    return jwt.verify(token, authConfig.jwtSecret) as JWTPayload;
+  } catch {
+    throw new OperationalError('Invalid or expired access token', 401, 'UNAUTHORIZED');
+  }
+}
+
+export async function login({
+  username,
+  password,
+}: LoginRequest): Promise<{ user: TokenClaims; tokens: AuthTokens }> {
+  const account = await findAccount(username);
+  const { password_hash, password_salt } = account?.guacamole_user ?? DUMMY_PASSWORD;
+  const valid = verifyGuacamolePassword(password, password_hash, password_salt);
+  if (!account || !valid) {
+    throw new OperationalError('Invalid username or password', 401, 'INVALID_CREDENTIALS');
+  }
+
+  const found = await claimsFor(account);
+  await expireStalePassword(found.user);
+  assertAccountUsable(found.user);
+
+  return { user: found.claims, tokens: issueTokens(found.claims) };
+}
+
+/** Issue new tokens, re-checking the account so disabled users and revoked permissions take effect. */
+export async function refreshTokens(refreshToken: string): Promise<AuthTokens> {
+  let payload: JWTPayload;
+  try {
+    payload = jwt.verify(refreshToken, authConfig.jwtRefreshSecret) as JWTPayload;
+  } catch {
+    throw new OperationalError('Invalid or expired refresh token', 401, 'UNAUTHORIZED');
+  }
+
+  const found = await loadClaims(payload.username);
+  if (!found || found.claims.userId !== payload.userId) {
+    throw new OperationalError('Account no longer exists', 401, 'UNAUTHORIZED');
+  }
+  await expireStalePassword(found.user);
+  assertAccountUsable(found.user);
+
+  return issueTokens(found.claims);
+}
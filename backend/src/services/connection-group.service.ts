@@ -0,0 +1,221 @@
+import { prisma } from "@/configs/database";
+import { assertCanPlaceUnder, grantCreatorPermissions } from "@/services/policy.service";
+import { JWTPayload } from "@/types/index";
+import { OperationalError } from "@/utils/app-error";
+
+export type ConnectionGroupType = "ORGANIZATIONAL" | "BALANCING";
+
+// The shape of a single connection group returned to callers
+export interface GuacamoleConnectionGroup {
+  connection_group_id: number;
+  connection_group_name: string;
+  parent_id: number | null;
+  type: ConnectionGroupType;
+  max_connections: number | null;
+  max_connections_per_user: number | null;
+  enable_session_affinity: boolean;
+}
+
+export type ConnectionGroupInput = Omit<GuacamoleConnectionGroup, "connection_group_id">;
+
+export interface ConnectionLeaf {
+  connection_id: number;
+  connection_name: string;
+  protocol: string;
+}
+
+export interface ConnectionGroupNode extends GuacamoleConnectionGroup {
+  groups: ConnectionGroupNode[];
+  connections: ConnectionLeaf[];
+}
+
+// The ROOT group is implicit in Guacamole (parent_id NULL), so the tree is rooted here
+export interface ConnectionGroupTree {
+  groups: ConnectionGroupNode[];
+  connections: ConnectionLeaf[];
+}
+
+const groupSelect = {
+  connection_group_id: true,
+  connection_group_name: true,
+  parent_id: true,
+  type: true,
+  max_connections: true,
+  max_connections_per_user: true,
+  enable_session_affinity: true,
+};
+
+const notFound = (id: number) => new OperationalError(`Connection group ${id} not found`, 404, "NOT_FOUND");
+
+async function findGroupOrThrow(tx: any, connectionGroupId: number): Promise<GuacamoleConnectionGroup> {
+  const row = await tx.guacamole_connection_group.findUnique({
+    where: { connection_group_id: connectionGroupId },
+    select: groupSelect,
+  });
+  if (!row) throw notFound(connectionGroupId);
+  return row;
+}
+
+// Ids of every group below `connectionGroupId`, walked level by level
+async function descendantIds(tx: any, connectionGroupId: number): Promise<Set<number>> {
+  const seen = new Set<number>();
+  let frontier = [connectionGroupId];
+  while (frontier.length > 0) {
+    const children = await tx.guacamole_connection_group.findMany({
+      where: { parent_id: { in: frontier } },
+      select: { connection_group_id: true },
+    });
+    frontier = children
+      .map((c: { connection_group_id: number }) => c.connection_group_id)
+      .filter((id: number) => !seen.has(id));
+    frontier.forEach((id) => seen.add(id));
+  }
+  return seen;
+}
+
+// Parent must exist and, when moving, must not be the group itself or one of its descendants
+async function assertPlacement(tx: any, input: ConnectionGroupInput, excludeId?: number) {
+  if (input.parent_id !== null) {
+    await findGroupOrThrow(tx, input.parent_id);
+
+    if (excludeId !== undefined) {
+      if (input.parent_id === excludeId || (await descendantIds(tx, excludeId)).has(input.parent_id)) {
+        throw new OperationalError(
+          `Connection group ${excludeId} cannot be moved under itself or one of its descendants`
+        );
+      }
+    }
+  }
+
+  const clash = await tx.guacamole_connection_group.findFirst({
+    where: {
+      connection_group_name: input.connection_group_name,
+      parent_id: input.parent_id,
+      ...(excludeId !== undefined && { connection_group_id: { not: excludeId } }),
+    },
+    select: { connection_group_id: true },
+  });
+  if (clash) {
+    throw new OperationalError(
+      `A connection group named ${input.connection_group_name} already exists in this group`,
+      409,
+      "CONFLICT"
+    );
+  }
+}
+
+/** The whole connection-group hierarchy with the connections of every group, sorted by name. */
+export const getConnectionGroupTree = async (): Promise<ConnectionGroupTree> => {
+  const [groups, connections] = await Promise.all([
+    prisma.guacamole_connection_group.findMany({
+      select: groupSelect,
+      orderBy: { connection_group_name: "asc" },
+    }),
+    prisma.guacamole_connection.findMany({
+      select: { connection_id: true, connection_name: true, protocol: true, parent_id: true },
+      orderBy: { connection_name: "asc" },
+    }),
+  ]);
+
+  const root: ConnectionGroupTree = { groups: [], connections: [] };
+  const nodes = new Map<number, ConnectionGroupNode>(
+    groups.map((g: GuacamoleConnectionGroup) => [
+      g.connection_group_id,
+      { ...g, groups: [], connections: [] },
+    ])
+  );
+  const containerOf = (parentId: number | null) => (parentId === null ? root : nodes.get(parentId) ?? root);
+
+  for (const node of nodes.values()) containerOf(node.parent_id).groups.push(node);
+  for (const { parent_id, ...leaf } of connections) containerOf(parent_id).connections.push(leaf);
+
+  return root;
+};
+
+export const getConnectionGroup = async (connectionGroupId: number): Promise<GuacamoleConnectionGroup> =>
+  findGroupOrThrow(prisma, connectionGroupId);
+
+/**
+ * Create a connection group; the creator gets full permissions on it and needs UPDATE on the
+ * parent group (CREATE_CONNECTION_GROUP suffices for the ROOT group).
+ */
+export const createConnectionGroup = async (
+  input: ConnectionGroupInput,
+  creator?: JWTPayload
+): Promise<GuacamoleConnectionGroup> => {
+  return prisma.$transaction(async (tx) => {
+    await assertPlacement(tx, input);
+    if (creator) await assertCanPlaceUnder(creator, input.parent_id, "CREATE_CONNECTION_GROUP");
+
+    const row = await tx.guacamole_connection_group.create({
+      data: { ...input, type: input.type as any },
+      select: groupSelect,
+    });
+
+    await grantCreatorPermissions(tx, "connection_group", row.connection_group_id, creator?.entityId);
+
+    return row;
+  });
+};
+
+/**
+ * Replace a connection group definition; a different `parent_id` moves it with everything below it.
+ * Moving also needs UPDATE on the destination parent (system ADMINISTER for the ROOT group).
+ */
+export const updateConnectionGroup = async (
+  connectionGroupId: number,
+  input: ConnectionGroupInput,
+  user?: JWTPayload
+): Promise<GuacamoleConnectionGroup> => {
+  return prisma.$transaction(async (tx) => {
+    const current = await findGroupOrThrow(tx, connectionGroupId);
+    await assertPlacement(tx, input, connectionGroupId);
+
+    if (user && input.parent_id !== current.parent_id) {
+      await assertCanPlaceUnder(user, input.parent_id, "ADMINISTER");
+    }
+
+    return tx.guacamole_connection_group.update({
+      where: { connection_group_id: connectionGroupId },
+      data: { ...input, type: input.type as any },
+      select: groupSelect,
+    });
+  });
+};
+
+/**
+ * Delete a connection group. Child groups and connections cascade with it in the database, so a
+ * non-empty group is refused with what it contains unless `force` is set.
+ */
+export const deleteConnectionGroup = async (connectionGroupId: number, force = false): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    await findGroupOrThrow(tx, connectionGroupId);
+
+    const ids = [connectionGroupId, ...(await descendantIds(tx, connectionGroupId))];
+    if (!force) {
+      const connections = await tx.guacamole_connection.count({ where: { parent_id: { in: ids } } });
+      const groups = ids.length - 1;
+      if (groups > 0 || connections > 0) {
+        throw new OperationalError(
+          `Connection group ${connectionGroupId} still contains ${groups} group(s) and ` +
+            `${connections} connection(s)`,
+          409,
+          "CONFLICT",
+          { groups, connections }
+        );
+      }
+    }
+
+    // IP rows have no foreign key to the connections that cascade away, so unlink them here
+    const connections = await tx.guacamole_connection.findMany({
+      where: { parent_id: { in: ids } },
+      select: { connection_id: true },
+    });
+    await tx.guacamole_user_available_ip.updateMany({
+      where: { connection_id: { in: connections.map((c: { connection_id: number }) => c.connection_id) } },
+      data: { connection_id: null },
+    });
+
+    await tx.guacamole_connection_group.delete({ where: { connection_group_id: connectionGroupId } });
+  });
+};
@@ -0,0 +1,355 @@
+import { prisma } from "@/configs/database";
+import { assertCanPlaceUnder, grantCreatorPermissions } from "@/services/policy.service";
+import { JWTPayload } from "@/types/index";
+import { OperationalError } from "@/utils/app-error";
+
+// The shape of a single Guacamole connection returned to callers
+export interface GuacamoleConnection {
+  connection_id: number;
+  connection_name: string;
+  parent_id: number | null;
+  protocol: string;
+  proxy_hostname: string | null;
+  proxy_port: number | null;
+  proxy_encryption_method: "NONE" | "SSL" | null;
+  max_connections: number | null;
+  max_connections_per_user: number | null;
+  connection_weight: number | null;
+  failover_only: boolean;
+  parameters: Record<string, string>;
+}
+
+export type ConnectionInput = Omit<GuacamoleConnection, "connection_id" | "parameters"> & {
+  parameters?: Record<string, string>;
+};
+
+// How to build one connection per IP; `name_pattern` may use {ip} and {group}
+export interface ConnectionTemplate {
+  protocol: string;
+  parent_id: number | null;
+  name_pattern: string;
+  parameters: Record<string, string>;
+  max_connections?: number | null;
+  max_connections_per_user?: number | null;
+}
+
+export interface ProvisionedConnection {
+  ip: string;
+  connection_id: number;
+  connection_name: string;
+}
+
+// What provisioning would create, and why it would fail
+export interface ProvisionPlan {
+  connections: { ip: string; connection_name: string }[];
+  problems: { ip?: string; reason: string }[];
+}
+
+export interface ConnectionFilters {
+  parent_id?: number | null;
+  protocol?: string;
+}
+
+const connectionSelect = {
+  connection_id: true,
+  connection_name: true,
+  parent_id: true,
+  protocol: true,
+  proxy_hostname: true,
+  proxy_port: true,
+  proxy_encryption_method: true,
+  max_connections: true,
+  max_connections_per_user: true,
+  connection_weight: true,
+  failover_only: true,
+  guacamole_connection_parameter: { select: { parameter_name: true, parameter_value: true } },
+};
+
+function toConnection({ guacamole_connection_parameter, ...row }: any): GuacamoleConnection {
+  return {
+    ...row,
+    parameters: Object.fromEntries(
+      (guacamole_connection_parameter ?? []).map((p: any) => [p.parameter_name, p.parameter_value])
+    ),
+  };
+}
+
+const toParameterRows = (parameters: Record<string, string>) =>
+  Object.entries(parameters).map(([parameter_name, parameter_value]) => ({
+    parameter_name,
+    parameter_value,
+  }));
+
+// Guacamole keys connections by name within their parent group (NULL is the root group)
+async function assertPlacement(tx: any, input: ConnectionInput, excludeId?: number) {
+  if (input.parent_id !== null) {
+    const parent = await tx.guacamole_connection_group.findUnique({
+      where: { connection_group_id: input.parent_id },
+      select: { connection_group_id: true },
+    });
+    if (!parent) {
+      throw new OperationalError(`Connection group ${input.parent_id} not found`, 404, "NOT_FOUND");
+    }
+  }
+
+  const clash = await tx.guacamole_connection.findFirst({
+    where: {
+      connection_name: input.connection_name,
+      parent_id: input.parent_id,
+      ...(excludeId && { connection_id: { not: excludeId } }),
+    },
+    select: { connection_id: true },
+  });
+  if (clash) {
+    throw new OperationalError(
+      `A connection named ${input.connection_name} already exists in this group`,
+      409,
+      "CONFLICT"
+    );
+  }
+}
+
+export const listConnections = async (filters: ConnectionFilters = {}): Promise<GuacamoleConnection[]> => {
+  const rows = await prisma.guacamole_connection.findMany({
+    where: {
+      ...(filters.parent_id !== undefined && { parent_id: filters.parent_id }),
+      ...(filters.protocol && { protocol: filters.protocol }),
+    },
+    select: connectionSelect,
+    orderBy: { connection_name: "asc" },
+  });
+  return rows.map(toConnection);
+};
+
+export const getConnection = async (connectionId: number): Promise<GuacamoleConnection> => {
+  const row = await prisma.guacamole_connection.findUnique({
+    where: { connection_id: connectionId },
+    select: connectionSelect,
+  });
+  if (!row) throw new OperationalError(`Connection ${connectionId} not found`, 404, "NOT_FOUND");
+  return toConnection(row);
+};
+
+/**
+ * Create a connection with its parameters; the creator gets full permissions on it and needs
+ * UPDATE on the parent group (CREATE_CONNECTION suffices for the ROOT group).
+ */
+export const createConnection = async (
+  input: ConnectionInput,
+  creator?: JWTPayload
+): Promise<GuacamoleConnection> => {
+  const { parameters = {}, ...fields } = input;
+
+  return prisma.$transaction(async (tx) => {
+    await assertPlacement(tx, input);
+    if (creator) await assertCanPlaceUnder(creator, input.parent_id, "CREATE_CONNECTION");
+
+    const row = await tx.guacamole_connection.create({
+      data: { ...fields, guacamole_connection_parameter: { create: toParameterRows(parameters) } },
+      select: connectionSelect,
+    });
+
+    await grantCreatorPermissions(tx, "connection", row.connection_id, creator?.entityId);
+
+    return toConnection(row);
+  });
+};
+
+/**
+ * Replace a connection definition. Parameters are replaced as a whole when given, kept otherwise.
+ * A different `parent_id` also needs UPDATE on the destination group (system ADMINISTER for ROOT).
+ */
+export const updateConnection = async (
+  connectionId: number,
+  input: ConnectionInput,
+  user?: JWTPayload
+): Promise<GuacamoleConnection> => {
+  const { parameters, ...fields } = input;
+
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.guacamole_connection.findUnique({
+      where: { connection_id: connectionId },
+      select: { connection_id: true, parent_id: true },
+    });
+    if (!current) throw new OperationalError(`Connection ${connectionId} not found`, 404, "NOT_FOUND");
+
+    await assertPlacement(tx, input, connectionId);
+    if (user && input.parent_id !== current.parent_id) {
+      await assertCanPlaceUnder(user, input.parent_id, "ADMINISTER");
+    }
+
+    if (parameters) {
+      await tx.guacamole_connection_parameter.deleteMany({ where: { connection_id: connectionId } });
+    }
+    const row = await tx.guacamole_connection.update({
+      where: { connection_id: connectionId },
+      data: {
+        ...fields,
+        ...(parameters && { guacamole_connection_parameter: { create: toParameterRows(parameters) } }),
+      },
+      select: connectionSelect,
+    });
+    return toConnection(row);
+  });
+};
+
+/**
+ * Delete a connection; parameters, permissions, attributes and sharing profiles cascade with it.
+ * IP rows have no foreign key to it, so their link is cleared here.
+ */
+export const deleteConnection = async (connectionId: number): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.guacamole_connection.deleteMany({ where: { connection_id: connectionId } });
+    if (count === 0) throw new OperationalError(`Connection ${connectionId} not found`, 404, "NOT_FOUND");
+
+    await tx.guacamole_user_available_ip.updateMany({
+      where: { connection_id: connectionId },
+      data: { connection_id: null },
+    });
+  });
+};
+
+// The connection `template` describes for `ip` of `group`
+const templateInput = (template: ConnectionTemplate, ip: string, group: string): ConnectionInput => ({
+  connection_name: template.name_pattern.replaceAll("{ip}", ip).replaceAll("{group}", group),
+  parent_id: template.parent_id,
+  protocol: template.protocol,
+  proxy_hostname: null,
+  proxy_port: null,
+  proxy_encryption_method: null,
+  max_connections: template.max_connections ?? null,
+  max_connections_per_user: template.max_connections_per_user ?? null,
+  connection_weight: null,
+  failover_only: false,
+});
+
+/**
+ * Dry run of provisionConnectionsTx: the connection each IP would get and why provisioning
+ * would fail (unknown group or parent, no permission on the parent, or a name already taken),
+ * without writing anything.
+ */
+export async function planProvisionedConnections(
+  tx: any,
+  group: string,
+  ips: string[],
+  template: ConnectionTemplate,
+  creator?: JWTPayload
+): Promise<ProvisionPlan> {
+  const connections = ips.map((ip) => ({
+    ip,
+    connection_name: templateInput(template, ip, group).connection_name,
+  }));
+  const problems: ProvisionPlan["problems"] = [];
+
+  const groupEntity = await tx.guacamole_entity.findFirst({
+    where: { name: group, type: "USER_GROUP" as any },
+    select: { entity_id: true },
+  });
+  if (!groupEntity) problems.push({ reason: `Group ${group} not found` });
+  if (creator) {
+    try {
+      await assertCanPlaceUnder(creator, template.parent_id, "CREATE_CONNECTION");
+    } catch (error: any) {
+      problems.push({ reason: error.message });
+    }
+  }
+
+  for (const ip of ips) {
+    try {
+      await assertPlacement(tx, templateInput(template, ip, group));
+    } catch (error: any) {
+      // a missing parent group fails every IP the same way
+      if (error.statusCode === 404) {
+        problems.push({ reason: error.message });
+        break;
+      }
+      problems.push({ ip, reason: error.message });
+    }
+  }
+  return { connections, problems };
+}
+
+/**
+ * Create one connection per IP from `template` (hostname = the IP), grant `group` READ on each
+ * and link the IP row to it. Like createConnection, the creator needs UPDATE on `template.parent_id`.
+ * Runs inside the caller's transaction so bulk IP creation and provisioning succeed or fail together.
+ */
+export async function provisionConnectionsTx(
+  tx: any,
+  group: string,
+  ips: string[],
+  template: ConnectionTemplate,
+  creator?: JWTPayload
+): Promise<ProvisionedConnection[]> {
+  const groupEntity = await tx.guacamole_entity.findFirst({
+    where: { name: group, type: "USER_GROUP" as any },
+    select: { entity_id: true },
+  });
+  if (!groupEntity) throw new OperationalError(`Group ${group} not found`, 404, "NOT_FOUND");
+  if (creator) await assertCanPlaceUnder(creator, template.parent_id, "CREATE_CONNECTION");
+
+  const provisioned: ProvisionedConnection[] = [];
+  for (const ip of ips) {
+    const input = templateInput(template, ip, group);
+    await assertPlacement(tx, input);
+
+    const row = await tx.guacamole_connection.create({
+      data: {
+        ...input,
+        guacamole_connection_parameter: { create: toParameterRows({ ...template.parameters, hostname: ip }) },
+      },
+      select: { connection_id: true, connection_name: true },
+    });
+
+    await tx.guacamole_connection_permission.create({
+      data: { entity_id: groupEntity.entity_id, connection_id: row.connection_id, permission: "READ" as any },
+    });
+    await grantCreatorPermissions(tx, "connection", row.connection_id, creator?.entityId);
+
+    await tx.guacamole_user_available_ip.updateMany({
+      where: { ip, group_name: group },
+      data: { connection_id: row.connection_id },
+    });
+    provisioned.push({ ip, ...row });
+  }
+  return provisioned;
+}
+
+/**
+ * Provision connections for `ips` of `group`, or for every IP row of the group that has no
+ * connection yet when `ips` is omitted.
+ */
+export const provisionConnections = async (
+  group: string,
+  template: ConnectionTemplate,
+  ips?: string[],
+  creator?: JWTPayload
+): Promise<ProvisionedConnection[]> => {
+  return prisma.$transaction(async (tx) => {
+    const rows = await tx.guacamole_user_available_ip.findMany({
+      where: { group_name: group, ...(ips ? { ip: { in: ips } } : { connection_id: null }) },
+      select: { ip: true, connection_id: true },
+    });
+
+    const missing = ips?.filter((ip) => !rows.some((r: { ip: string }) => r.ip === ip)) ?? [];
+    if (missing.length > 0) {
+      throw new OperationalError(`No IP row in group ${group} for ${missing.join(", ")}`, 404, "NOT_FOUND");
+    }
+    const linked = rows.filter((r: { connection_id: number | null }) => r.connection_id !== null);
+    if (linked.length > 0) {
+      throw new OperationalError(
+        `IPs already have a connection: ${linked.map((r: { ip: string }) => r.ip).join(", ")}`,
+        409,
+        "CONFLICT"
+      );
+    }
+
+    return provisionConnectionsTx(
+      tx,
+      group,
+      rows.map((r: { ip: string }) => r.ip),
+      template,
+      creator
+    );
+  });
+};
@@ -1,9 +1,31 @@
 import { prisma } from '@/configs/database';
+import { OperationalError } from '@/utils/app-error';
+import { grantCreatorPermissions } from '@/services/policy.service';
+import { LEASED_IP_WHERE } from '@/services/lease.service';
+
+// Group names as last read from the database, for request-time validation. Dropped whenever
+// groups are created or deleted here; the TTL picks up groups changed in Guacamole itself.
+const GROUP_CACHE_TTL_MS = 30_000;
+let groupNameCache: { names: Promise<Set<string>>; expiresAt: number } | null = null;
+
+export function invalidateGroupCache() {
+  groupNameCache = null;
+}
+
+export async function groupExists(name: string): Promise<boolean> {
+  if (!groupNameCache || groupNameCache.expiresAt <= Date.now()) {
+    const names = listGroups().then((gs) => new Set<string>(gs.map((g) => g.name)));
+    groupNameCache = { names, expiresAt: Date.now() + GROUP_CACHE_TTL_MS };
+    // a failed lookup must not be cached
+    names.catch(invalidateGroupCache);
+  }
+  return (await groupNameCache.names).has(name);
+}
 
 // guacamole_entity_type enum should include 'USER_GROUP'
 // Adjust according to your Prisma schema enum
-export async function createGroup(name: string) {
-  return prisma.$transaction(async (tx) => {
+export async function createGroup(name: string, creatorEntityId?: number) {
+  const created = await prisma.$transaction(async (tx) => {
     const entity = await tx.guacamole_entity.create({
       data: { name, type: 'USER_GROUP' as any },
       select: { entity_id: true, name: true, type: true },
@@ -20,24 +42,266 @@ export async function createGroup(name: string) {
       },
     });
 
+    await grantCreatorPermissions(tx, 'user_group', group.user_group_id, creatorEntityId);
+
     return { name: entity.name, disabled: false };
   });
+  invalidateGroupCache();
+  return created;
+}
+
+// What deleting a group would affect
+export interface GroupDeletionImpact {
+  name: string;
+  ips: number;
+  leases: number;
+  pools: number;
+  members: GroupMembers;
+  // grants other entities hold on this group / permissions the group itself holds
+  permissions: { on_group: number; held: number };
 }
 
-export async function deleteGroupByName(name: string) {
-  return prisma.$transaction(async (tx) => {
+export interface GroupDeletionOptions {
+  // move IP rows and pools to this group instead of dropping them
+  reassignTo?: string;
+}
+
+export async function groupDeletionImpact(name: string): Promise<GroupDeletionImpact> {
+  const group = await findGroup(prisma, name);
+  const held = { entity_id: group.entity_id };
+  const [ips, leases, pools, members, onGroup, ...heldCounts] = await Promise.all([
+    prisma.guacamole_user_available_ip.count({ where: { group_name: name } }),
+    prisma.guacamole_user_available_ip.count({ where: { group_name: name, ...LEASED_IP_WHERE } }),
+    prisma.guacamole_ip_pool.count({ where: { group_name: name } }),
+    listGroupMembers(name),
+    prisma.guacamole_user_group_permission.count({
+      where: { affected_user_group_id: group.user_group_id },
+    }),
+    prisma.guacamole_system_permission.count({ where: held }),
+    prisma.guacamole_connection_permission.count({ where: held }),
+    prisma.guacamole_connection_group_permission.count({ where: held }),
+    prisma.guacamole_sharing_profile_permission.count({ where: held }),
+    prisma.guacamole_user_permission.count({ where: held }),
+    prisma.guacamole_user_group_permission.count({ where: held }),
+  ]);
+
+  return {
+    name,
+    ips,
+    leases,
+    pools,
+    members,
+    permissions: { on_group: onGroup, held: heldCounts.reduce((sum: number, n: number) => sum + n, 0) },
+  };
+}
+
+/**
+ * Delete a group. Its IP rows and pools are dropped, or moved to `reassignTo` (leases stay
+ * with their holders); memberships and permissions go with the entity through the cascades.
+ */
+export async function deleteGroupByName(name: string, options: GroupDeletionOptions = {}) {
+  const { reassignTo } = options;
+  if (reassignTo === name) throw new OperationalError('Cannot reassign IPs to the group being deleted');
+
+  await prisma.$transaction(async (tx) => {
+    const group = await findGroup(tx, name);
+
+    if (reassignTo) {
+      await findGroup(tx, reassignTo);
+      await tx.guacamole_user_available_ip.updateMany({
+        where: { group_name: name },
+        data: { group_name: reassignTo },
+      });
+      await tx.guacamole_ip_pool.updateMany({
+        where: { group_name: name },
+        data: { group_name: reassignTo },
+      });
+    } else {
+      await tx.guacamole_user_available_ip.deleteMany({ where: { group_name: name } });
+      await tx.guacamole_ip_pool.deleteMany({ where: { group_name: name } });
+    }
+
+    // delete user_group referencing entity
+    await tx.guacamole_user_group.deleteMany({ where: { entity_id: group.entity_id } });
+    // delete entity last (cascades will help for relations)
+    await tx.guacamole_entity.delete({ where: { entity_id: group.entity_id } });
+  });
+  invalidateGroupCache();
+}
+
+export interface GroupChanges {
+  name?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Rename and/or enable/disable a group. IP rows and pools refer to groups by name, so a
+ * rename is carried over to them in the same transaction.
+ */
+export async function updateGroup(name: string, changes: GroupChanges) {
+  const updated = await prisma.$transaction(async (tx) => {
     const entity = await tx.guacamole_entity.findFirst({
       where: { name, type: 'USER_GROUP' as any },
-      select: { entity_id: true },
+      select: { entity_id: true, guacamole_user_group: { select: { disabled: true } } },
     });
-    if (!entity) return;
+    if (!entity) throw new OperationalError(`Group ${name} not found`, 404, 'NOT_FOUND');
 
-    // delete user_group referencing entity
-    await tx.guacamole_user_group.deleteMany({ where: { entity_id: entity.entity_id } });
-    // delete entity last (cascades will help for relations)
-    await tx.guacamole_entity.delete({ where: { entity_id: entity.entity_id } });
-    await tx.guacamole_user_available_ip.deleteMany({ where: { group_name: name } });
+    const newName = changes.name ?? name;
+    if (newName !== name) {
+      const taken = await tx.guacamole_entity.findFirst({
+        where: { name: newName, type: 'USER_GROUP' as any },
+        select: { entity_id: true },
+      });
+      if (taken) throw new OperationalError(`Group ${newName} already exists`, 409, 'CONFLICT');
+
+      await tx.guacamole_entity.update({ where: { entity_id: entity.entity_id }, data: { name: newName } });
+      await tx.guacamole_user_available_ip.updateMany({
+        where: { group_name: name },
+        data: { group_name: newName },
+      });
+      await tx.guacamole_ip_pool.updateMany({ where: { group_name: name }, data: { group_name: newName } });
+    }
+
+    if (changes.disabled !== undefined) {
+      await tx.guacamole_user_group.update({
+        where: { entity_id: entity.entity_id },
+        data: { disabled: changes.disabled },
+      });
+    }
+
+    return { name: newName, disabled: changes.disabled ?? entity.guacamole_user_group?.disabled ?? false };
+  });
+  invalidateGroupCache();
+  return updated;
+}
+
+export type MemberType = 'user' | 'group';
+
+export interface GroupMembers {
+  users: string[];
+  groups: string[];
+}
+
+const entityTypeOf = (type: MemberType) => (type === 'user' ? 'USER' : 'USER_GROUP') as any;
+
+async function findGroup(tx: any, name: string) {
+  const group = await tx.guacamole_user_group.findFirst({
+    where: { guacamole_entity: { name, type: 'USER_GROUP' as any } },
+    select: { user_group_id: true, entity_id: true },
+  });
+  if (!group) throw new OperationalError(`Group ${name} not found`, 404, 'NOT_FOUND');
+  return group as { user_group_id: number; entity_id: number };
+}
+
+async function findMemberEntity(tx: any, type: MemberType, name: string): Promise<number> {
+  const entity = await tx.guacamole_entity.findFirst({
+    where: { name, type: entityTypeOf(type) },
+    select: { entity_id: true },
+  });
+  if (!entity) {
+    throw new OperationalError(`${type === 'user' ? 'User' : 'Group'} ${name} not found`, 404, 'NOT_FOUND');
+  }
+  return entity.entity_id;
+}
+
+export async function listGroupMembers(name: string): Promise<GroupMembers> {
+  const group = await findGroup(prisma, name);
+  const rows = await prisma.guacamole_user_group_member.findMany({
+    where: { user_group_id: group.user_group_id },
+    select: { guacamole_entity: { select: { name: true, type: true } } },
+  });
+
+  const names = (type: string) =>
+    rows
+      .filter((r: any) => r.guacamole_entity.type === type)
+      .map((r: any) => r.guacamole_entity.name as string)
+      .sort((a: string, b: string) => a.localeCompare(b));
+  return { users: names('USER'), groups: names('USER_GROUP') };
+}
+
+/**
+ * Add a user or a nested group to a group. A group may not end up containing itself, so
+ * `memberName` must not already (transitively) contain `name`.
+ */
+export async function addGroupMember(name: string, type: MemberType, memberName: string) {
+  await prisma.$transaction(async (tx) => {
+    const group = await findGroup(tx, name);
+    const memberEntityId = await findMemberEntity(tx, type, memberName);
+
+    if (type === 'group') {
+      // walk up from the target group: every group it is (indirectly) a member of
+      const ancestors = new Set<number>([group.entity_id]);
+      let frontier = [group.entity_id];
+      while (frontier.length > 0) {
+        const parents = await tx.guacamole_user_group_member.findMany({
+          where: { member_entity_id: { in: frontier } },
+          select: { guacamole_user_group: { select: { entity_id: true } } },
+        });
+        frontier = parents
+          .map((p: any) => p.guacamole_user_group.entity_id as number)
+          .filter((id: number) => !ancestors.has(id));
+        frontier.forEach((id) => ancestors.add(id));
+      }
+      if (ancestors.has(memberEntityId)) {
+        throw new OperationalError(`Adding ${memberName} to ${name} would create a membership cycle`);
+      }
+    }
+
+    const existing = await tx.guacamole_user_group_member.findFirst({
+      where: { user_group_id: group.user_group_id, member_entity_id: memberEntityId },
+    });
+    if (existing) throw new OperationalError(`${memberName} is already a member of ${name}`, 409, 'CONFLICT');
+
+    await tx.guacamole_user_group_member.create({
+      data: { user_group_id: group.user_group_id, member_entity_id: memberEntityId },
+    });
+  });
+}
+
+export async function removeGroupMember(name: string, type: MemberType, memberName: string) {
+  await prisma.$transaction(async (tx) => {
+    const group = await findGroup(tx, name);
+    const memberEntityId = await findMemberEntity(tx, type, memberName);
+    const { count } = await tx.guacamole_user_group_member.deleteMany({
+      where: { user_group_id: group.user_group_id, member_entity_id: memberEntityId },
+    });
+    if (count === 0) throw new OperationalError(`${memberName} is not a member of ${name}`, 404, 'NOT_FOUND');
+  });
+}
+
+export type GroupAttributes = Record<string, string>;
+
+export async function getGroupAttributes(name: string): Promise<GroupAttributes> {
+  const group = await findGroup(prisma, name);
+  const rows = await prisma.guacamole_user_group_attribute.findMany({
+    where: { user_group_id: group.user_group_id },
+    select: { attribute_name: true, attribute_value: true },
+    orderBy: { attribute_name: 'asc' },
+  });
+  return Object.fromEntries(rows.map((r: any) => [r.attribute_name, r.attribute_value]));
+}
+
+/** Merge `changes` into the group's attributes; a null value removes the attribute. */
+export async function updateGroupAttributes(
+  name: string,
+  changes: Record<string, string | null>
+): Promise<GroupAttributes> {
+  await prisma.$transaction(async (tx) => {
+    const group = await findGroup(tx, name);
+    for (const [attribute_name, attribute_value] of Object.entries(changes)) {
+      const key = { user_group_id: group.user_group_id, attribute_name };
+      if (attribute_value === null) {
+        await tx.guacamole_user_group_attribute.deleteMany({ where: key });
+      } else {
+        await tx.guacamole_user_group_attribute.upsert({
+          where: { user_group_id_attribute_name: key },
+          create: { ...key, attribute_value },
+          update: { attribute_value },
+        });
+      }
+    }
   });
+  return getGroupAttributes(name);
 }
 
 export async function listGroups() {
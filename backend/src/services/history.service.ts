@@ -0,0 +1,204 @@
+import { prisma } from "@/configs/database";
+import { PaginationOptions } from "@/types/index";
+
+export type HistorySortField = "start_date" | "end_date" | "username" | "connection_name";
+
+// Filters shared by connection and login history; a record matches the date range when it overlaps it
+export interface HistoryFilters {
+  username?: string;
+  remote_host?: string;
+  from?: Date;
+  to?: Date;
+  active?: boolean;
+}
+
+// Query of GET /guacamole-history/sessions
+export interface SessionHistoryOptions extends PaginationOptions, HistoryFilters {
+  sortBy?: HistorySortField;
+  connection_id?: number;
+  ip?: string;
+}
+
+// Query of GET /guacamole-history/logins
+export interface LoginHistoryOptions extends PaginationOptions, HistoryFilters {
+  sortBy?: Exclude<HistorySortField, "connection_name">;
+}
+
+// The IP row a session's connection points at (by connection_id, else by its hostname parameter)
+export interface LinkedIP {
+  id: number;
+  ip: string;
+  group_name: string;
+  gateway: string | null;
+}
+
+export interface SessionRecord {
+  history_id: number;
+  username: string;
+  remote_host: string | null;
+  connection_id: number | null;
+  connection_name: string;
+  sharing_profile_name: string | null;
+  start_date: Date;
+  end_date: Date | null;
+  active: boolean;
+  duration_seconds: number;
+  ip: LinkedIP | null;
+}
+
+export interface LoginRecord {
+  history_id: number;
+  username: string;
+  remote_host: string | null;
+  start_date: Date;
+  end_date: Date | null;
+  active: boolean;
+  duration_seconds: number;
+}
+
+export interface HistoryPage<T> {
+  rows: T[];
+  total: number;
+}
+
+const linkedIpSelect = { id: true, ip: true, group_name: true, gateway: true };
+
+// Active sessions count up to now
+const durationSeconds = (start: Date, end: Date | null, now: Date) =>
+  Math.max(0, Math.round(((end ?? now).getTime() - start.getTime()) / 1000));
+
+function historyWhere(options: HistoryFilters) {
+  const { username, remote_host, from, to, active } = options;
+  return {
+    ...(username && { username }),
+    ...(remote_host && { remote_host: { contains: remote_host } }),
+    ...(to && { start_date: { lte: to } }),
+    ...(from && { OR: [{ end_date: { gte: from } }, { end_date: null }] }),
+    ...(active === true && { end_date: null }),
+    ...(active === false && { end_date: { not: null } }),
+  };
+}
+
+/** Connections whose sessions ran on `ip`: linked from its IP rows or pointing at it by hostname. */
+async function connectionIdsForIp(ip: string): Promise<number[]> {
+  const [rows, params] = await Promise.all([
+    prisma.guacamole_user_available_ip.findMany({
+      where: { ip, connection_id: { not: null } },
+      select: { connection_id: true },
+    }),
+    prisma.guacamole_connection_parameter.findMany({
+      where: { parameter_name: "hostname", parameter_value: ip },
+      select: { connection_id: true },
+    }),
+  ]);
+  return [...new Set<number>([...rows, ...params].map((r: any) => r.connection_id))];
+}
+
+/** Map each connection to the IP row it reaches, preferring the row linked by connection_id. */
+export async function linkIps(connectionIds: number[]): Promise<Map<number, LinkedIP>> {
+  const links = new Map<number, LinkedIP>();
+  if (connectionIds.length === 0) return links;
+
+  const linked = await prisma.guacamole_user_available_ip.findMany({
+    where: { connection_id: { in: connectionIds } },
+    select: { ...linkedIpSelect, connection_id: true },
+  });
+  for (const { connection_id, ...row } of linked) links.set(connection_id, row);
+
+  const rest = connectionIds.filter((id) => !links.has(id));
+  if (rest.length === 0) return links;
+
+  const hostnames = await prisma.guacamole_connection_parameter.findMany({
+    where: { connection_id: { in: rest }, parameter_name: "hostname" },
+    select: { connection_id: true, parameter_value: true },
+  });
+  const byIp = await prisma.guacamole_user_available_ip.findMany({
+    where: { ip: { in: hostnames.map((h: any) => h.parameter_value) } },
+    select: linkedIpSelect,
+  });
+  for (const h of hostnames) {
+    const row = byIp.find((r: LinkedIP) => r.ip === h.parameter_value);
+    if (row) links.set(h.connection_id, row);
+  }
+  return links;
+}
+
+/** One page of connection sessions (guacamole_connection_history), newest first by default. */
+export const listSessionHistory = async (
+  options: SessionHistoryOptions
+): Promise<HistoryPage<SessionRecord>> => {
+  const { page, limit, sortBy = "start_date", sortOrder = "desc", connection_id, ip } = options;
+
+  let connectionIds: number[] | undefined;
+  if (ip) {
+    connectionIds = await connectionIdsForIp(ip);
+    if (connection_id) connectionIds = connectionIds.filter((id) => id === connection_id);
+  } else if (connection_id) {
+    connectionIds = [connection_id];
+  }
+
+  const where = {
+    ...historyWhere(options),
+    ...(connectionIds && { connection_id: { in: connectionIds } }),
+  };
+  const [rows, total] = await Promise.all([
+    prisma.guacamole_connection_history.findMany({
+      where,
+      select: {
+        history_id: true,
+        username: true,
+        remote_host: true,
+        connection_id: true,
+        connection_name: true,
+        sharing_profile_name: true,
+        start_date: true,
+        end_date: true,
+      },
+      orderBy: [{ [sortBy]: sortOrder }, { history_id: sortOrder }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.guacamole_connection_history.count({ where }),
+  ]);
+
+  const links = await linkIps([
+    ...new Set<number>(rows.map((r: any) => r.connection_id).filter((id: number | null) => id !== null)),
+  ]);
+  const now = new Date();
+  return {
+    rows: rows.map((r: any) => ({
+      ...r,
+      active: r.end_date === null,
+      duration_seconds: durationSeconds(r.start_date, r.end_date, now),
+      ip: (r.connection_id !== null && links.get(r.connection_id)) || null,
+    })),
+    total,
+  };
+};
+
+/** One page of logins (guacamole_user_history), newest first by default. */
+export const listLoginHistory = async (options: LoginHistoryOptions): Promise<HistoryPage<LoginRecord>> => {
+  const { page, limit, sortBy = "start_date", sortOrder = "desc" } = options;
+  const where = historyWhere(options);
+
+  const [rows, total] = await Promise.all([
+    prisma.guacamole_user_history.findMany({
+      where,
+      select: { history_id: true, username: true, remote_host: true, start_date: true, end_date: true },
+      orderBy: [{ [sortBy]: sortOrder }, { history_id: sortOrder }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.guacamole_user_history.count({ where }),
+  ]);
+
+  const now = new Date();
+  return {
+    rows: rows.map((r: any) => ({
+      ...r,
+      active: r.end_date === null,
+      duration_seconds: durationSeconds(r.start_date, r.end_date, now),
+    })),
+    total,
+  };
+};
@@ -1,4 +1,23 @@
+import { createHash } from "node:crypto";
 import { prisma } from "@/configs/database";
+import { OperationalError } from "@/utils/app-error";
+import {
+  assertIpAssignable,
+  findPool,
+  GuacamoleIPPool,
+  ipRejectionReason,
+  nextAssignableIp,
+  resolvePool,
+  takenPoolIps,
+} from "@/services/pool.service";
+import { FREE_IP_WHERE } from "@/services/lease.service";
+import {
+  ConnectionTemplate,
+  planProvisionedConnections,
+  provisionConnectionsTx,
+} from "@/services/connection.service";
+import { JWTPayload, PaginationOptions } from "@/types/index";
+import { cidrContains, ipSortKey, isIPv4, parseCidr } from "@/utils/ip.utils";
 
 // The shape of a single IP entry returned from DB
 export interface GuacamoleUserAvailableIP {
@@ -7,6 +26,11 @@ export interface GuacamoleUserAvailableIP {
   gateway?: string | null;
 }
 
+// A row as listed to editors: `etag` must be echoed back when updating it
+export interface VersionedGuacamoleIP extends GuacamoleUserAvailableIP {
+  etag: string;
+}
+
 // Define the shape of a single update item (matches IncomingData)
 export interface IncomingData {
   old_ip: string;
@@ -15,85 +39,312 @@ export interface IncomingData {
   new_group: string;
   old_gateway?: string | null;
   new_gateway?: string | null;
+  etag: string;
 }
 
-function parseIp(ip: string): number[] {
-  return ip.split(".").map((p) => Number(p));
+// A submitted row whose etag no longer matches; `current` is null when the row is gone
+export interface IPEditConflict {
+  old_ip: string;
+  old_group: string;
+  current: VersionedGuacamoleIP | null;
 }
 
-function ipToString(parts: number[]): string {
-  return parts.join(".");
+/**
+ * Version of a row derived from the fields editors can change, so any writer (lease, pool
+ * update, another editor) invalidates it without a version column.
+ */
+function etagOf(row: { id: number } & GuacamoleUserAvailableIP): string {
+  return createHash("sha1")
+    .update(`${row.id}|${row.ip}|${row.group_name}|${row.gateway ?? ""}`)
+    .digest("base64url")
+    .slice(0, 16);
 }
 
-function nextIp(ip: string): string {
-  const p = parseIp(ip);
-  for (let i = 3; i >= 0; i--) {
-    p[i] += 1;
-    if (p[i] <= 255) break;
-    p[i] = 0;
-  }
-  return ipToString(p);
+const toVersioned = ({ id, ...row }: { id: number } & GuacamoleUserAvailableIP): VersionedGuacamoleIP => ({
+  ...row,
+  etag: etagOf({ id, ...row }),
+});
+
+export type IPSortField = "ip" | "group" | "gateway" | "lease";
+
+// Query of GET /guacamole-ip
+export interface IPListOptions extends PaginationOptions {
+  sortBy?: IPSortField;
+  group?: string;
+  gateway?: string;
+  leased?: boolean;
+  search?: string;
 }
 
-async function findStartBase(): Promise<string> {
-  // pick a stable base: use the earliest DB IP and set last octet to 1
-  const row = await prisma.guacamole_user_available_ip.findFirst({
-    orderBy: { id: "asc" },
-    select: { ip: true },
-  });
-  if (row?.ip) {
-    const parts = parseIp(row.ip);
-    // safe fallback if parse fails
-    if (parts.length === 4 && parts.every((n) => Number.isInteger(n))) {
-      return `${parts[0]}.${parts[1]}.${parts[2]}.1`;
-    }
-  }
-  return "100.101.102.1";
+export interface ListedGuacamoleIP extends VersionedGuacamoleIP {
+  leased: boolean;
+}
+
+export interface IPListPage {
+  rows: ListedGuacamoleIP[];
+  total: number;
+}
+
+// ORDER BY per sort field. IPs are stored as strings, so they are ordered through INET_ATON
+// (MySQL would otherwise put 10.0.0.10 before 10.0.0.9); malformed values map to NULL and sort
+// first instead of failing the listing. Ties always fall back to numeric IP order.
+const ipOrderBy: Record<IPSortField, string> = {
+  ip: "INET_ATON(ip) {dir}, ip {dir}",
+  group: "group_name {dir}, INET_ATON(ip) {dir}",
+  gateway: "INET_ATON(gateway) {dir}, INET_ATON(ip) {dir}",
+  lease: "(user_id IS NOT NULL OR is_available_user <> 0) {dir}, INET_ATON(ip) {dir}",
+};
+
+// Raw row of the listing query
+interface ListedIPRow {
+  id: number;
+  ip: string;
+  group_name: string;
+  gateway: string | null;
+  user_id: number | null;
+  is_available_user: number;
 }
 
-// Fetch function return type: Promise of array of available IPs
-export const fetchGuacamoleUserAvailableIPs = async (): Promise<GuacamoleUserAvailableIP[]> => {
+// `contains` for LIKE: the search text itself must not act as a wildcard
+const likeContains = (text: string) => `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+/**
+ * One page of IP rows. Filtering, ordering and paging all run in the database; the query is
+ * raw SQL only because Prisma cannot order by INET_ATON.
+ */
+export const fetchGuacamoleUserAvailableIPs = async (options: IPListOptions): Promise<IPListPage> => {
   try {
-    const result = await prisma.guacamole_user_available_ip.findMany({
-      select: { ip: true, group_name: true, gateway: true },
-      orderBy: [{ id: "asc" }],
-    });
-    return result;
+    const { page, limit, sortBy = "ip", sortOrder = "asc", group, gateway, leased, search } = options;
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (group) {
+      conditions.push("group_name = ?");
+      params.push(group);
+    }
+    if (gateway) {
+      conditions.push("gateway = ?");
+      params.push(gateway);
+    }
+    // same meaning as LEASED_IP_WHERE / FREE_IP_WHERE
+    if (leased === true) conditions.push("(user_id IS NOT NULL OR is_available_user <> 0)");
+    if (leased === false) conditions.push("(user_id IS NULL AND is_available_user = 0)");
+    if (search) {
+      conditions.push("(ip LIKE ? OR group_name LIKE ? OR gateway LIKE ? OR username LIKE ?)");
+      params.push(...Array(4).fill(likeContains(search)));
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const orderBy = ipOrderBy[sortBy].replaceAll("{dir}", sortOrder === "desc" ? "DESC" : "ASC");
+
+    const [result, counted] = await Promise.all([
+      prisma.$queryRawUnsafe<ListedIPRow[]>(
+        `SELECT id, ip, group_name, gateway, user_id, is_available_user
+         FROM guacamole_user_available_ip ${where}
+         ORDER BY ${orderBy}, id
+         LIMIT ? OFFSET ?`,
+        ...params,
+        limit,
+        (page - 1) * limit
+      ),
+      prisma.$queryRawUnsafe<{ total: bigint }[]>(
+        `SELECT COUNT(*) AS total FROM guacamole_user_available_ip ${where}`,
+        ...params
+      ),
+    ]);
+
+    const rows: ListedGuacamoleIP[] = result.map(({ user_id, is_available_user, ...row }: ListedIPRow) => ({
+      ...toVersioned(row),
+      leased: user_id !== null || Number(is_available_user) !== 0,
+    }));
+    return { rows, total: Number(counted[0].total) };
   } catch (error: any) {
     console.error("Error fetching Guacamole user available IPs:", error.message);
     throw error;
   }
 };
 
-// Update function takes an array of IncomingData and returns Promise of array of updated records
+// Outcome of one submitted row
+export interface IPUpdateResult {
+  old_ip: string;
+  new_ip: string;
+  status: "updated" | "unchanged" | "failed";
+  reason?: string;
+  row?: GuacamoleUserAvailableIP;
+  // connections whose hostname parameter followed the IP to new_ip
+  connections?: { connection_id: number; connection_name: string }[];
+}
+
+export interface IPUpdateOptions {
+  // rewrite guacamole_connection_parameter hostname=old_ip to new_ip (default on)
+  syncHostnames?: boolean;
+}
+
+const isNoOp = (item: IncomingData) =>
+  item.old_ip === item.new_ip &&
+  item.old_group === item.new_group &&
+  (item.new_gateway || item.old_gateway || null) === (item.old_gateway || null);
+
+/**
+ * Apply only the rows that changed. No-ops are reported as unchanged without touching the DB,
+ * and every other row succeeds or fails on its own, so one bad row does not block the rest.
+ * A target IP counts as free when the row holding it moves away in the same request, which
+ * lets two rows exchange addresses (a swap) without either tripping the uniqueness check.
+ * Every changed row must carry the etag it was listed with; if any row changed underneath
+ * the client the whole request is refused with 409 and the current state of those rows.
+ * Connections whose `hostname` parameter is a renumbered IP are pointed at the new IP in the
+ * same transaction unless `syncHostnames` is false.
+ */
 export const updateGuacamoleUserAvailableIP = async (
-  data: IncomingData[]
-): Promise<GuacamoleUserAvailableIP[]> => {
+  data: IncomingData[],
+  { syncHostnames = true }: IPUpdateOptions = {}
+): Promise<IPUpdateResult[]> => {
   try {
-    // Use transaction but update by found id (safer than trying to update by composite)
     return prisma.$transaction(async (tx) => {
-      const updated: GuacamoleUserAvailableIP[] = [];
-      for (const item of data) {
-        const found = await tx.guacamole_user_available_ip.findFirst({
+      const results: IPUpdateResult[] = data.map((item) => ({
+        old_ip: item.old_ip,
+        new_ip: item.new_ip,
+        status: isNoOp(item) ? "unchanged" : "updated",
+      }));
+      const fail = (i: number, reason: string) => {
+        results[i].status = "failed";
+        results[i].reason = reason;
+      };
+
+      // Edits are only valid against the version the client saw
+      const found: ({ id: number } & GuacamoleUserAvailableIP)[] = [];
+      const conflicts: IPEditConflict[] = [];
+      for (const [i, item] of data.entries()) {
+        if (results[i].status === "unchanged") continue;
+
+        const row = await tx.guacamole_user_available_ip.findFirst({
           where: { ip: item.old_ip, group_name: item.old_group },
-          select: { id: true },
+          select: { id: true, ip: true, group_name: true, gateway: true },
         });
+        if (!row || etagOf(row) !== item.etag) {
+          const current = row && toVersioned(row);
+          conflicts.push({ old_ip: item.old_ip, old_group: item.old_group, current });
+        }
+        found[i] = row;
+      }
+      if (conflicts.length > 0) {
+        throw new OperationalError(
+          `${conflicts.length} row(s) were changed by someone else; reload and try again`,
+          409,
+          "CONFLICT",
+          { conflicts }
+        );
+      }
 
-        if (!found) {
-          throw new Error(
-            `Row not found for ip=${item.old_ip} group=${item.old_group} gateway=${item.old_gateway}`
+      // Validate each changed row on its own: its target must be assignable
+      const pending = new Map<number, { id: number; gateway: string | null }>();
+      const targets = new Map<string, number>();
+      for (const [i, item] of data.entries()) {
+        if (results[i].status === "unchanged") continue;
+
+        if (targets.has(item.new_ip)) {
+          fail(i, `${item.new_ip} is also requested by row ${data[targets.get(item.new_ip)!].old_ip}`);
+          continue;
+        }
+
+        try {
+          const pool = await findPool(tx, item.new_group, item.new_gateway, item.new_ip);
+          if (pool) {
+            assertIpAssignable(pool, item.new_ip);
+            pending.set(i, { id: found[i].id, gateway: item.new_gateway || pool.gateway });
+          } else {
+            // Rows created before pools existed stay editable as long as they keep their
+            // stored group and gateway; moving them anywhere else needs a pool
+            const gateway = item.new_gateway || found[i].gateway;
+            if (item.new_group !== found[i].group_name || gateway !== found[i].gateway) {
+              await resolvePool(tx, item.new_group, item.new_gateway, item.new_ip);
+            }
+            pending.set(i, { id: found[i].id, gateway });
+          }
+          targets.set(item.new_ip, i);
+        } catch (error: any) {
+          fail(i, error.message);
+        }
+      }
+
+      // A target held by another row is only free if that row moves away. Failing one row can
+      // strand another (e.g. half of a swap), so repeat until nothing else fails.
+      const holders = await tx.guacamole_user_available_ip.findMany({
+        where: { ip: { in: [...targets.keys()] } },
+        select: { id: true, ip: true },
+      });
+      const leaving = (id: number) => [...pending.values()].some((p) => p.id === id);
+      for (let changed = true; changed; ) {
+        changed = false;
+        for (const [i, { id }] of pending) {
+          const blocker = holders.find(
+            (h: { id: number; ip: string }) => h.ip === data[i].new_ip && h.id !== id && !leaving(h.id)
           );
+          if (!blocker) continue;
+          fail(i, `${data[i].new_ip} is already in use`);
+          pending.delete(i);
+          changed = true;
         }
+      }
+
+      // Find the connections to repoint before rewriting any of them, so a swap does not move
+      // the same hostname twice
+      const renumbered = [...pending.keys()].filter((i) => data[i].old_ip !== data[i].new_ip);
+      const hostnameRows =
+        syncHostnames && renumbered.length > 0
+          ? await tx.guacamole_connection_parameter.findMany({
+              where: {
+                parameter_name: "hostname",
+                parameter_value: { in: renumbered.map((i) => data[i].old_ip) },
+              },
+              select: {
+                connection_id: true,
+                parameter_value: true,
+                guacamole_connection: { select: { connection_name: true } },
+              },
+            })
+          : [];
 
-        const u = await tx.guacamole_user_available_ip.update({
-          where: { id: found.id },
-          data: { ip: item.new_ip, group_name: item.new_group, gateway: item.new_gateway },
-          select: { ip: true, group_name: true, gateway: true },
+      // Compare-and-set on the values the etag was checked against, in case a writer outside
+      // this transaction got in between
+      for (const [i, { id, gateway }] of pending) {
+        const item = data[i];
+        const { count } = await tx.guacamole_user_available_ip.updateMany({
+          where: { id, ip: found[i].ip, group_name: found[i].group_name, gateway: found[i].gateway },
+          data: { ip: item.new_ip, group_name: item.new_group, gateway },
         });
+        if (count === 0) {
+          const current = await tx.guacamole_user_available_ip.findUnique({
+            where: { id },
+            select: { id: true, ip: true, group_name: true, gateway: true },
+          });
+          const conflict: IPEditConflict = {
+            old_ip: item.old_ip,
+            old_group: item.old_group,
+            current: current && toVersioned(current),
+          };
+          throw new OperationalError(`${item.old_ip} was changed by someone else`, 409, "CONFLICT", {
+            conflicts: [conflict],
+          });
+        }
+        results[i].row = { ip: item.new_ip, group_name: item.new_group, gateway };
+      }
 
-        updated.push(u);
+      for (const i of renumbered) {
+        const connections = hostnameRows.filter((h: any) => h.parameter_value === data[i].old_ip);
+        for (const c of connections) {
+          await tx.guacamole_connection_parameter.updateMany({
+            where: { connection_id: c.connection_id, parameter_name: "hostname" },
+            data: { parameter_value: data[i].new_ip },
+          });
+        }
+        if (syncHostnames) {
+          results[i].connections = connections.map((c: any) => ({
+            connection_id: c.connection_id,
+            connection_name: c.guacamole_connection.connection_name,
+          }));
+        }
       }
-      return updated;
+      return results;
     });
   } catch (error: any) {
     console.error("Error updating Guacamole user available IP:", error.message);
@@ -101,76 +352,283 @@ export const updateGuacamoleUserAvailableIP = async (
   }
 };
 
-/**
- * Create N IP rows distributed across provided groups.
- * - allocations: [{ amount, group }]
- * - total: total count (should equal sum of allocations)
- * - ips?: optional explicit ips array (length must be total). If provided server will use these ips in-order.
- */
-export const createBulkGuacamoleIPs = async (
-  allocations: { amount: number; group: string; gateway?: string }[],
-  total: number,
-  ips?: string[]
-): Promise<GuacamoleUserAvailableIP[]> => {
+export type IPAllocation = { amount: number; group: string; gateway?: string; firstIp?: string };
+
+// A row bulk creation would insert
+export interface PlannedGuacamoleIP extends GuacamoleUserAvailableIP {
+  pool_name: string;
+  // the connection a connection template would create for it
+  connection_name?: string;
+}
+
+// Why an allocation (or one of its IPs) cannot be created
+export interface GuacamoleIPConflict {
+  group: string;
+  ip?: string;
+  reason: string;
+  existing?: GuacamoleUserAvailableIP;
+}
+
+export interface BulkIPPlan {
+  rows: PlannedGuacamoleIP[];
+  conflicts: GuacamoleIPConflict[];
+}
+
+function assertBulkArgs(allocations: IPAllocation[], total: number, ips?: string[]) {
   if (!Array.isArray(allocations)) throw new Error("allocations must be an array");
   if (!Number.isInteger(total) || total <= 0) throw new Error("total must be integer > 0");
 
   if (ips && (!Array.isArray(ips) || ips.length !== total)) {
     throw new Error("ips array length must equal total when provided");
   }
+}
 
-  return prisma.$transaction(async (tx) => {
-    // Determine starting IP = max existing + 1 or a base
-    const latest = await tx.guacamole_user_available_ip.findFirst({
-      orderBy: [{ id: "desc" }],
-      select: { ip: true },
+/**
+ * Work out which rows bulk creation would insert, without writing anything.
+ * Problems are collected as conflicts instead of thrown so a preview can report all of them.
+ */
+async function planBulkGuacamoleIPs(
+  tx: any,
+  allocations: IPAllocation[],
+  ips?: string[]
+): Promise<BulkIPPlan> {
+  const rows: PlannedGuacamoleIP[] = [];
+  const conflicts: GuacamoleIPConflict[] = [];
+  // taken IPs per pool, loaded on first use and extended with every planned row
+  const takenByPool = new Map<number, Set<string>>();
+
+  const existingRow = (ip: string): Promise<GuacamoleUserAvailableIP | null> =>
+    tx.guacamole_user_available_ip.findFirst({
+      where: { ip },
+      select: { ip: true, group_name: true, gateway: true },
     });
 
-    let current = latest?.ip ?? (await findStartBase());
-    const created: GuacamoleUserAvailableIP[] = [];
+  // If ips is provided we use ips sequentially.
+  let ipsIndex = 0;
 
-    // If ips is provided we use ips sequentially.
-    let ipsIndex = 0;
+  for (const alloc of allocations) {
+    if (!alloc.amount) continue;
+    const requested = ips ? ips.slice(ipsIndex, (ipsIndex += alloc.amount)) : null;
+
+    let pool: GuacamoleIPPool;
+    try {
+      pool = await resolvePool(tx, alloc.group, alloc.gateway, alloc.firstIp ?? requested?.[0]);
+    } catch (error: any) {
+      conflicts.push({ group: alloc.group, reason: error.message });
+      continue;
+    }
 
-    for (const alloc of allocations) {
-      for (let i = 0; i < (alloc.amount || 0); i++) {
-        let candidate: string;
-        if (ips) {
-          candidate = ips[ipsIndex++];
-          const exists = await tx.guacamole_user_available_ip.findFirst({
-            where: { ip: candidate },
-            select: { id: true },
+    if (!takenByPool.has(pool.pool_id)) takenByPool.set(pool.pool_id, await takenPoolIps(tx, pool));
+    const taken = takenByPool.get(pool.pool_id);
+
+    let cursor = alloc.firstIp;
+    for (let i = 0; i < alloc.amount; i++) {
+      let candidate: string;
+      if (requested) {
+        candidate = requested[i];
+        const reason = ipRejectionReason(pool, candidate);
+        if (reason) {
+          conflicts.push({ group: alloc.group, ip: candidate, reason });
+          continue;
+        }
+        const existing = await existingRow(candidate);
+        if (existing) {
+          conflicts.push({
+            group: alloc.group,
+            ip: candidate,
+            reason: `${candidate} already exists in group ${existing.group_name}`,
+            existing,
           });
-          if (exists) {
-            throw new Error(`Requested ip ${candidate} already exists in database`);
-          }
-        } else {
-          while (true) {
-            const exists = await tx.guacamole_user_available_ip.findFirst({
-              where: { ip: current },
-              select: { id: true },
-            });
-            if (!exists) break;
-            current = nextIp(current);
-          }
-          candidate = current;
-          current = nextIp(current);
+          continue;
+        }
+      } else {
+        try {
+          candidate = nextAssignableIp(pool, cursor, taken);
+        } catch (error: any) {
+          conflicts.push({ group: alloc.group, reason: error.message });
+          break;
         }
+      }
 
-        const row = await tx.guacamole_user_available_ip.create({
-          data: {
-            ip: candidate,
-            group_name: alloc.group,
-            gateway: alloc.gateway ?? null, // <-- persist gateway here
-            is_available_user: 0,
-          },
-          select: { ip: true, group_name: true, gateway: true },
-        });
+      rows.push({
+        ip: candidate,
+        group_name: alloc.group,
+        gateway: pool.gateway,
+        pool_name: pool.pool_name,
+      });
+      taken.add(candidate);
+      cursor = candidate;
+    }
+  }
 
-        created.push(row);
-      }
+  return { rows, conflicts };
+}
+
+/**
+ * Dry run of `createBulkGuacamoleIPs`: the rows it would create and any conflicts, including
+ * the connection each row would get from `connectionTemplate` and why provisioning would fail.
+ */
+export const previewBulkGuacamoleIPs = async (
+  allocations: IPAllocation[],
+  total: number,
+  ips?: string[],
+  connectionTemplate?: ConnectionTemplate,
+  creator?: JWTPayload
+): Promise<BulkIPPlan> => {
+  assertBulkArgs(allocations, total, ips);
+  const plan = await planBulkGuacamoleIPs(prisma, allocations, ips);
+  if (!connectionTemplate) return plan;
+
+  for (const group of new Set(plan.rows.map((r) => r.group_name))) {
+    const groupRows = plan.rows.filter((r) => r.group_name === group);
+    const { connections, problems } = await planProvisionedConnections(
+      prisma,
+      group,
+      groupRows.map((r) => r.ip),
+      connectionTemplate,
+      creator
+    );
+    for (const c of connections) {
+      groupRows.find((r) => r.ip === c.ip)!.connection_name = c.connection_name;
     }
+    plan.conflicts.push(...problems.map((p) => ({ group, ...p })));
+  }
+  return plan;
+};
 
+/**
+ * Create N IP rows distributed across provided groups.
+ * - allocations: [{ amount, group, gateway, firstIp? }]; each allocation draws from the pool
+ *   identified by its gateway, which must belong to its group
+ * - total: total count (should equal sum of allocations)
+ * - ips?: optional explicit ips array (length must be total). If provided server will use these ips in-order.
+ *   Otherwise each allocation walks its pool from firstIp (or the start of the pool), skipping
+ *   taken, reserved, gateway, network and broadcast addresses.
+ * - connectionTemplate?: also create one connection per new IP (see provisionConnectionsTx)
+ * Nothing is written if any allocation conflicts.
+ */
+export const createBulkGuacamoleIPs = async (
+  allocations: IPAllocation[],
+  total: number,
+  ips?: string[],
+  connectionTemplate?: ConnectionTemplate,
+  creator?: JWTPayload
+): Promise<(GuacamoleUserAvailableIP & { connection_id: number | null })[]> => {
+  assertBulkArgs(allocations, total, ips);
+
+  return prisma.$transaction(async (tx) => {
+    const { rows, conflicts } = await planBulkGuacamoleIPs(tx, allocations, ips);
+    if (conflicts.length > 0) {
+      throw new OperationalError(conflicts.map((c) => c.reason).join("; "), 409, "CONFLICT");
+    }
+
+    const created: (GuacamoleUserAvailableIP & { connection_id: number | null })[] = [];
+    for (const { pool_name, ...row } of rows) {
+      created.push(
+        await tx.guacamole_user_available_ip.create({
+          data: { ...row, is_available_user: 0 },
+          select: { ip: true, group_name: true, gateway: true, connection_id: true },
+        })
+      );
+    }
+
+    if (connectionTemplate) {
+      for (const group of new Set(created.map((r) => r.group_name))) {
+        const groupRows = created.filter((r) => r.group_name === group);
+        const connections = await provisionConnectionsTx(
+          tx,
+          group,
+          groupRows.map((r) => r.ip),
+          connectionTemplate,
+          creator
+        );
+        for (const c of connections) {
+          groupRows.find((r) => r.ip === c.ip)!.connection_id = c.connection_id;
+        }
+      }
+    }
     return created;
   });
 };
+
+// Which rows to delete: a single IP, or any combination of group, gateway and CIDR
+export interface IPDeleteFilter {
+  ip?: string;
+  group?: string;
+  gateway?: string;
+  cidr?: string;
+}
+
+// A removed row, including who held it when the delete was forced
+export interface DeletedGuacamoleIP extends GuacamoleUserAvailableIP {
+  username: string | null;
+  leased: boolean;
+}
+
+/**
+ * Delete the IP rows matching `filter`. Rows leased to a user (`user_id` set or
+ * `is_available_user` flagged) are refused with 409 unless `force` is set, and the delete only
+ * removes rows that were free when checked, so a lease taken meanwhile aborts instead of
+ * vanishing. Returns exactly the rows that were removed.
+ */
+export const deleteGuacamoleIPs = async (
+  filter: IPDeleteFilter,
+  force = false
+): Promise<DeletedGuacamoleIP[]> => {
+  if (!filter.ip && !filter.group && !filter.gateway && !filter.cidr) {
+    throw new OperationalError("Refusing to delete every IP: give an ip, group, gateway or cidr");
+  }
+  const range = filter.cidr ? parseCidr(filter.cidr) : null;
+
+  return prisma.$transaction(async (tx) => {
+    const where = {
+      ...(filter.ip && { ip: filter.ip }),
+      ...(filter.group && { group_name: filter.group }),
+      ...(filter.gateway && { gateway: filter.gateway }),
+    };
+    const candidates = await tx.guacamole_user_available_ip.findMany({
+      where,
+      select: {
+        ip: true,
+        group_name: true,
+        gateway: true,
+        username: true,
+        user_id: true,
+        is_available_user: true,
+      },
+    });
+    const rows: DeletedGuacamoleIP[] = candidates
+      // a malformed IP is in no range
+      .filter((r: { ip: string }) => !range || (isIPv4(r.ip) && cidrContains(range, r.ip)))
+      .map(({ user_id, is_available_user, ...r }: any) => ({
+        ...r,
+        leased: user_id !== null || is_available_user !== 0,
+      }))
+      .sort((a: DeletedGuacamoleIP, b: DeletedGuacamoleIP) => ipSortKey(a.ip) - ipSortKey(b.ip));
+
+    if (rows.length === 0) {
+      if (filter.ip) throw new OperationalError(`IP ${filter.ip} not found`, 404, "NOT_FOUND");
+      return [];
+    }
+
+    const leased = rows.filter((r) => r.leased);
+    if (leased.length > 0 && !force) {
+      throw new OperationalError(
+        `${leased.length} IP(s) are leased: ${leased.map((r) => r.ip).join(", ")}`,
+        409,
+        "CONFLICT",
+        { leased }
+      );
+    }
+
+    const ips = rows.map((r) => r.ip);
+    const { count } = await tx.guacamole_user_available_ip.deleteMany({
+      where: { ...where, ip: { in: ips }, ...(!force && FREE_IP_WHERE) },
+    });
+    if (count !== rows.length) {
+      throw new OperationalError("Some IPs were leased while deleting; nothing was removed", 409, "CONFLICT");
+    }
+
+    return rows;
+  });
+};
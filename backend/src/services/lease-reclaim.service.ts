@@ -0,0 +1,107 @@
+import { prisma } from "@/configs/database";
+import { leaseReclaimConfig } from "@/configs/lease.config";
+import { logAuditEvent, logger } from "@/configs/logger.config";
+import { LEASED_IP_WHERE, RELEASED_IP_DATA } from "@/services/lease.service";
+
+export interface ReclaimedLease {
+  ip: string;
+  username: string | null;
+  last_activity: Date;
+}
+
+type LeaseRow = {
+  id: number;
+  ip: string;
+  user_id: number | null;
+  username: string | null;
+  start_date: Date | null;
+};
+
+/**
+ * Most recent sign of life for a lease holder: the lease start or the latest end_date in
+ * guacamole_user_history / guacamole_connection_history. Returns "active" while any session is still
+ * open (end_date null), or null when there is nothing to judge the lease by.
+ */
+async function lastActivityOf(lease: LeaseRow): Promise<Date | "active" | null> {
+  const holder = lease.user_id
+    ? { user_id: lease.user_id }
+    : lease.username
+      ? { username: lease.username }
+      : null;
+  if (!holder) return lease.start_date;
+
+  const [openLogins, openConnections, lastLogin, lastConnection] = await Promise.all([
+    prisma.guacamole_user_history.count({ where: { ...holder, end_date: null } }),
+    prisma.guacamole_connection_history.count({ where: { ...holder, end_date: null } }),
+    prisma.guacamole_user_history.aggregate({ where: holder, _max: { end_date: true } }),
+    prisma.guacamole_connection_history.aggregate({ where: holder, _max: { end_date: true } }),
+  ]);
+  if (openLogins > 0 || openConnections > 0) return "active";
+
+  const times = [lease.start_date, lastLogin._max.end_date, lastConnection._max.end_date].filter(Boolean);
+  return times.length > 0 ? new Date(Math.max(...times.map((t: Date) => t.getTime()))) : null;
+}
+
+/**
+ * Release every lease whose holder has had no open session for `idleMinutes`.
+ * The release only matches while the row still belongs to the same holder, so a lease re-assigned
+ * in the meantime is left alone.
+ */
+export async function reclaimIdleLeases(
+  idleMinutes = leaseReclaimConfig.idleMinutes,
+  now = new Date()
+): Promise<ReclaimedLease[]> {
+  const cutoff = now.getTime() - idleMinutes * 60 * 1000;
+  const leases: LeaseRow[] = await prisma.guacamole_user_available_ip.findMany({
+    where: LEASED_IP_WHERE,
+    select: { id: true, ip: true, user_id: true, username: true, start_date: true },
+  });
+
+  const reclaimed: ReclaimedLease[] = [];
+  for (const lease of leases) {
+    const lastActivity = await lastActivityOf(lease);
+    if (lastActivity === "active" || lastActivity === null || lastActivity.getTime() > cutoff) continue;
+
+    const released = await prisma.guacamole_user_available_ip.updateMany({
+      where: { id: lease.id, user_id: lease.user_id, username: lease.username },
+      data: RELEASED_IP_DATA,
+    });
+    if (released.count === 0) continue;
+
+    reclaimed.push({ ip: lease.ip, username: lease.username, last_activity: lastActivity });
+    logAuditEvent("reclaim_ip", lease.ip, "lease-reclaim-worker", {
+      holder: lease.username,
+      last_activity: lastActivity.toISOString(),
+      idle_minutes: idleMinutes,
+    });
+  }
+
+  return reclaimed;
+}
+
+/** Run `reclaimIdleLeases` periodically. Returns a function that stops the worker. */
+export function startLeaseReclaimWorker(): () => void {
+  if (!leaseReclaimConfig.enabled) {
+    logger.info("Lease reclaim worker disabled");
+    return () => {};
+  }
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return; // previous pass still going
+    running = true;
+    try {
+      const reclaimed = await reclaimIdleLeases();
+      if (reclaimed.length > 0) logger.info(`Reclaimed ${reclaimed.length} idle IP lease(s)`);
+    } catch (error) {
+      logger.error("Lease reclaim pass failed:", error);
+    } finally {
+      running = false;
+    }
+  }, leaseReclaimConfig.intervalMillis);
+  timer.unref();
+
+  const { idleMinutes, intervalMillis } = leaseReclaimConfig;
+  logger.info(`Lease reclaim worker started (idle ${idleMinutes} min, every ${intervalMillis} ms)`);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,154 @@
+import { prisma } from "@/configs/database";
+import { OperationalError } from "@/utils/app-error";
+import { ipSortKey, isIPv4 } from "@/utils/ip.utils";
+
+// The shape of a single lease (an IP row currently held by a Guacamole user)
+export interface GuacamoleIPLease {
+  ip: string;
+  group_name: string;
+  gateway?: string | null;
+  user_id: number | null;
+  username: string | null;
+  start_date: Date | null;
+  connection_id: number | null;
+  container_name: string | null;
+}
+
+export interface LeaseRequest {
+  group: string;
+  username: string;
+  container_name?: string;
+}
+
+export interface LeaseFilters {
+  group?: string;
+  username?: string;
+}
+
+const leaseSelect = {
+  ip: true,
+  group_name: true,
+  gateway: true,
+  user_id: true,
+  username: true,
+  start_date: true,
+  connection_id: true,
+  container_name: true,
+};
+
+// A row is free only when nobody holds it; either column being set means it is leased
+export const FREE_IP_WHERE = { user_id: null, is_available_user: 0 };
+export const LEASED_IP_WHERE = { OR: [{ user_id: { not: null } }, { is_available_user: { not: 0 } }] };
+
+// Columns reset when a lease ends
+export const RELEASED_IP_DATA = {
+  user_id: null,
+  username: null,
+  start_date: null,
+  is_available_user: 0,
+  container_name: null,
+};
+
+export const listLeases = async (filters: LeaseFilters = {}): Promise<GuacamoleIPLease[]> => {
+  const rows = await prisma.guacamole_user_available_ip.findMany({
+    where: {
+      ...LEASED_IP_WHERE,
+      ...(filters.group && { group_name: filters.group }),
+      ...(filters.username && { username: filters.username }),
+    },
+    select: leaseSelect,
+  });
+  return rows.sort((a, b) => ipSortKey(a.ip) - ipSortKey(b.ip));
+};
+
+export const getLease = async (ip: string): Promise<GuacamoleIPLease> => {
+  const row = await prisma.guacamole_user_available_ip.findFirst({
+    where: { ip, ...LEASED_IP_WHERE },
+    select: leaseSelect,
+  });
+  if (!row) throw new OperationalError(`No active lease for ${ip}`, 404, "NOT_FOUND");
+  return row;
+};
+
+/**
+ * Lease the lowest free IP of `group` to a Guacamole user.
+ * Each candidate is claimed with a conditional update that only matches while the row is still free,
+ * so two concurrent requests can never be handed the same address: the loser moves on to the next one.
+ * The user's guacamole_user row is locked for the whole transaction, so concurrent requests for the
+ * same user run one after the other and the second sees the IP the first one claimed.
+ */
+export const leaseIp = async ({
+  group,
+  username,
+  container_name,
+}: LeaseRequest): Promise<GuacamoleIPLease> => {
+  const entity = await prisma.guacamole_entity.findFirst({
+    where: { name: username, type: "USER" as any },
+    select: { guacamole_user: { select: { user_id: true, disabled: true } } },
+  });
+  const user = entity?.guacamole_user;
+  if (!user) throw new OperationalError(`Guacamole user ${username} not found`, 404, "NOT_FOUND");
+  if (user.disabled) throw new OperationalError(`Guacamole user ${username} is disabled`, 409, "CONFLICT");
+
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT user_id FROM guacamole_user WHERE user_id = ${user.user_id} FOR UPDATE`;
+
+    const existing = await tx.guacamole_user_available_ip.findFirst({
+      where: { group_name: group, user_id: user.user_id },
+      select: { ip: true },
+    });
+    if (existing) {
+      throw new OperationalError(
+        `${username} already holds ${existing.ip} in group ${group}`,
+        409,
+        "CONFLICT"
+      );
+    }
+
+    // malformed legacy rows are never handed out
+    const candidates = (
+      await tx.guacamole_user_available_ip.findMany({
+        where: { group_name: group, ...FREE_IP_WHERE },
+        select: { id: true, ip: true },
+      })
+    ).filter((c) => isIPv4(c.ip));
+    candidates.sort((a, b) => ipSortKey(a.ip) - ipSortKey(b.ip));
+
+    for (const candidate of candidates) {
+      const claimed = await tx.guacamole_user_available_ip.updateMany({
+        where: { id: candidate.id, ...FREE_IP_WHERE },
+        data: {
+          user_id: user.user_id,
+          username,
+          start_date: new Date(),
+          is_available_user: 1,
+          container_name: container_name ?? null,
+        },
+      });
+      if (claimed.count === 1) {
+        return tx.guacamole_user_available_ip.findUnique({
+          where: { id: candidate.id },
+          select: leaseSelect,
+        });
+      }
+    }
+
+    throw new OperationalError(`No free IP left in group ${group}`, 409, "POOL_EXHAUSTED");
+  });
+};
+
+/** End the lease on `ip`, returning the row as it was while leased. */
+export const releaseLease = async (ip: string): Promise<GuacamoleIPLease> => {
+  return prisma.$transaction(async (tx) => {
+    const lease = await tx.guacamole_user_available_ip.findFirst({
+      where: { ip, ...LEASED_IP_WHERE },
+      select: { id: true, ...leaseSelect },
+    });
+    if (!lease) throw new OperationalError(`No active lease for ${ip}`, 404, "NOT_FOUND");
+
+    await tx.guacamole_user_available_ip.update({ where: { id: lease.id }, data: RELEASED_IP_DATA });
+
+    const { id, ...released } = lease;
+    return released;
+  });
+};
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PasswordPolicyConfig } from "@/configs/password-policy.config";
+import {
+  assertPasswordPolicy,
+  isPasswordTooOld,
+  passwordPolicyErrors,
+  StoredPassword,
+} from "@/services/password-policy.service";
+import { generateSalt, hashGuacamolePassword } from "@/utils/guacamole-password.utils";
+
+const policy: PasswordPolicyConfig = {
+  minLength: 12,
+  requireMixedCase: true,
+  requireDigit: true,
+  requireSymbol: true,
+  prohibitUsername: true,
+  historySize: 2,
+  maxAgeDays: 90,
+};
+
+const stored = (password: string): StoredPassword => {
+  const salt = generateSalt();
+  return { password_hash: hashGuacamolePassword(password, salt), password_salt: salt };
+};
+
+const failedRules = (password: string, username = "alice", previous: StoredPassword[] = []) =>
+  Object.keys(passwordPolicyErrors(password, username, previous, policy)).sort();
+
+describe("passwordPolicyErrors", () => {
+  it("accepts a password meeting every rule", () => {
+    assert.deepEqual(failedRules("Correct-Horse-9"), []);
+  });
+
+  it("reports each broken rule under password.<rule>", () => {
+    assert.deepEqual(failedRules("short"), [
+      "password.digit",
+      "password.minLength",
+      "password.mixedCase",
+      "password.symbol",
+    ]);
+  });
+
+  it("rejects passwords containing the username in any case", () => {
+    assert.deepEqual(failedRules("My-ALICE-pass-1"), ["password.username"]);
+  });
+
+  it("checks the current password and the last historySize ones", () => {
+    const previous = ["Current-Pass-1", "Older-Pass-22", "Oldest-Pass-33", "Ancient-Pass-44"].map(stored);
+    assert.deepEqual(failedRules("Current-Pass-1", "alice", previous), ["password.history"]);
+    assert.deepEqual(failedRules("Oldest-Pass-33", "alice", previous), ["password.history"]);
+    // beyond the current password plus historySize entries
+    assert.deepEqual(failedRules("Ancient-Pass-44", "alice", previous), []);
+  });
+
+  it("skips the history rule when historySize is 0", () => {
+    const previous = [stored("Current-Pass-1")];
+    const errors = passwordPolicyErrors("Current-Pass-1", "alice", previous, { ...policy, historySize: 0 });
+    assert.deepEqual(errors, {});
+  });
+
+  it("matches unsalted legacy hashes", () => {
+    const legacy = { password_hash: hashGuacamolePassword("Legacy-Pass-1"), password_salt: null };
+    assert.deepEqual(failedRules("Legacy-Pass-1", "alice", [legacy]), ["password.history"]);
+  });
+});
+
+describe("assertPasswordPolicy", () => {
+  it("throws a 400 carrying the errors map", () => {
+    assert.throws(() => assertPasswordPolicy("x", "alice"), (error: any) => {
+      assert.equal(error.statusCode, 400);
+      assert.equal(error.errorCode, "PASSWORD_POLICY");
+      assert.ok(error.details["password.minLength"]);
+      return true;
+    });
+  });
+});
+
+describe("isPasswordTooOld", () => {
+  const now = new Date("2026-01-31T00:00:00Z");
+
+  it("expires passwords older than maxAgeDays", () => {
+    assert.equal(isPasswordTooOld(new Date("2025-11-01T00:00:00Z"), now, policy), true);
+    assert.equal(isPasswordTooOld(new Date("2026-01-01T00:00:00Z"), now, policy), false);
+  });
+
+  it("never expires when maxAgeDays is 0", () => {
+    const neverExpires = { ...policy, maxAgeDays: 0 };
+    assert.equal(isPasswordTooOld(new Date("2000-01-01T00:00:00Z"), now, neverExpires), false);
+  });
+});
@@ -0,0 +1,67 @@
+import { passwordPolicyConfig, PasswordPolicyConfig } from "@/configs/password-policy.config";
+import { OperationalError } from "@/utils/app-error";
+import { verifyGuacamolePassword } from "@/utils/guacamole-password.utils";
+import { zodIssuesToMap } from "@/utils/zod.utils";
+
+export interface StoredPassword {
+  password_hash: Uint8Array;
+  password_salt: Uint8Array | null;
+}
+
+const DAY_MILLIS = 24 * 3600 * 1000;
+
+/**
+ * Check `password` against every rule of the policy. Each failed rule becomes one issue under
+ * `password.<rule>`, so callers get the same `errors` map that zodIssuesToMap builds for input
+ * validation. `previous` is the current password followed by the history, newest first.
+ */
+export function passwordPolicyErrors(
+  password: string,
+  username: string,
+  previous: StoredPassword[] = [],
+  policy: PasswordPolicyConfig = passwordPolicyConfig
+): Record<string, string[]> {
+  const issues: { path: string[]; message: string }[] = [];
+  const fail = (rule: string, message: string) => issues.push({ path: ["password", rule], message });
+
+  if (password.length < policy.minLength) {
+    fail("minLength", `Password must be at least ${policy.minLength} characters long.`);
+  }
+  if (policy.requireMixedCase && !(/[a-z]/.test(password) && /[A-Z]/.test(password))) {
+    fail("mixedCase", "Password must contain both upper and lower case letters.");
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    fail("digit", "Password must contain at least one digit.");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    fail("symbol", "Password must contain at least one symbol.");
+  }
+  if (policy.prohibitUsername && username && password.toLowerCase().includes(username.toLowerCase())) {
+    fail("username", "Password must not contain the username.");
+  }
+  if (policy.historySize > 0) {
+    const reused = previous
+      .slice(0, policy.historySize + 1)
+      .some((p) => verifyGuacamolePassword(password, p.password_hash, p.password_salt));
+    if (reused) fail("history", `Password must differ from the last ${policy.historySize} password(s).`);
+  }
+
+  return zodIssuesToMap(issues);
+}
+
+/** Throw a 400 carrying the per-rule `errors` map when `password` breaks the policy. */
+export function assertPasswordPolicy(password: string, username: string, previous: StoredPassword[] = []) {
+  const errors = passwordPolicyErrors(password, username, previous);
+  if (Object.keys(errors).length > 0) {
+    throw new OperationalError("Password does not meet the password policy", 400, "PASSWORD_POLICY", errors);
+  }
+}
+
+/** Whether a password set at `passwordDate` is past the policy's maximum age. */
+export function isPasswordTooOld(
+  passwordDate: Date,
+  now = new Date(),
+  policy: PasswordPolicyConfig = passwordPolicyConfig
+): boolean {
+  return policy.maxAgeDays > 0 && now.getTime() - passwordDate.getTime() > policy.maxAgeDays * DAY_MILLIS;
+}
@@ -0,0 +1,175 @@
+import { prisma } from '@/configs/database';
+import { JWTPayload, ObjectPermission, Role, SystemPermission } from '@/types/index';
+import { OperationalError } from '@/utils/app-error';
+
+// Mirrors guacamole_system_permission_permission in prisma/schema.prisma
+export const SYSTEM_PERMISSIONS: readonly SystemPermission[] = [
+  'CREATE_CONNECTION',
+  'CREATE_CONNECTION_GROUP',
+  'CREATE_SHARING_PROFILE',
+  'CREATE_USER',
+  'CREATE_USER_GROUP',
+  'ADMINISTER',
+];
+
+// Mirrors guacamole_user_group_permission_permission (shared by the other object permission enums)
+export const OBJECT_PERMISSIONS: readonly ObjectPermission[] = ['READ', 'UPDATE', 'DELETE', 'ADMINISTER'];
+
+/**
+ * Coarse role derived from system permissions: ADMINISTER makes an admin, any CREATE_* permission an
+ * operator, and everyone else is read-only.
+ */
+export function roleFor(permissions: readonly string[]): Role {
+  if (permissions.includes('ADMINISTER')) return 'admin';
+  if (permissions.some((p) => SYSTEM_PERMISSIONS.includes(p as SystemPermission))) return 'operator';
+  return 'read-only';
+}
+
+/** ADMINISTER implies every other system permission, as in Guacamole. */
+export function hasSystemPermission(user: JWTPayload, permission: SystemPermission): boolean {
+  const granted = user.permissions ?? [];
+  return granted.includes('ADMINISTER') || granted.includes(permission);
+}
+
+/**
+ * The entity itself plus every (enabled) user group it belongs to, following nested membership.
+ * Permissions granted to any of these entities apply to the user.
+ */
+export async function effectiveEntityIds(entityId: number): Promise<number[]> {
+  const entityIds = new Set<number>([entityId]);
+  let frontier = [entityId];
+
+  while (frontier.length > 0) {
+    const memberships = await prisma.guacamole_user_group_member.findMany({
+      where: { member_entity_id: { in: frontier }, guacamole_user_group: { disabled: false } },
+      select: { guacamole_user_group: { select: { entity_id: true } } },
+    });
+    frontier = memberships.map((m) => m.guacamole_user_group.entity_id).filter((id) => !entityIds.has(id));
+    frontier.forEach((id) => entityIds.add(id));
+  }
+
+  return [...entityIds];
+}
+
+export async function effectiveSystemPermissions(entityId: number): Promise<SystemPermission[]> {
+  const rows = await prisma.guacamole_system_permission.findMany({
+    where: { entity_id: { in: await effectiveEntityIds(entityId) } },
+    select: { permission: true },
+  });
+  return [...new Set<SystemPermission>(rows.map((r) => r.permission))];
+}
+
+export type ObjectKind = 'user' | 'user_group' | 'connection' | 'connection_group' | 'sharing_profile';
+
+interface ObjectPermissionTable {
+  // how the object is named in messages
+  label: string;
+  // Prisma model of the permission table
+  model: string;
+  // column holding the affected object's id
+  objectColumn: string;
+  // users and user groups are addressed by name, through their entity
+  named?: { relation: string; type: 'USER' | 'USER_GROUP' };
+}
+
+// Where Guacamole keeps the object permissions of each kind of object
+export const OBJECT_PERMISSION_TABLES: Readonly<Record<ObjectKind, ObjectPermissionTable>> = {
+  user: {
+    label: 'user',
+    model: 'guacamole_user_permission',
+    objectColumn: 'affected_user_id',
+    named: { relation: 'guacamole_user', type: 'USER' },
+  },
+  user_group: {
+    label: 'group',
+    model: 'guacamole_user_group_permission',
+    objectColumn: 'affected_user_group_id',
+    named: { relation: 'guacamole_user_group', type: 'USER_GROUP' },
+  },
+  connection: {
+    label: 'connection',
+    model: 'guacamole_connection_permission',
+    objectColumn: 'connection_id',
+  },
+  connection_group: {
+    label: 'connection group',
+    model: 'guacamole_connection_group_permission',
+    objectColumn: 'connection_group_id',
+  },
+  sharing_profile: {
+    label: 'sharing profile',
+    model: 'guacamole_sharing_profile_permission',
+    objectColumn: 'sharing_profile_id',
+  },
+};
+
+/**
+ * Whether the user holds `permission` on an object: a user or user group by name, anything else
+ * by id. System ADMINISTER and object-level ADMINISTER both imply every permission on the object.
+ */
+export async function hasObjectPermission(
+  user: JWTPayload,
+  kind: ObjectKind,
+  object: string | number,
+  permission: ObjectPermission
+): Promise<boolean> {
+  if (hasSystemPermission(user, 'ADMINISTER')) return true;
+
+  const { model, objectColumn, named } = OBJECT_PERMISSION_TABLES[kind];
+  const count = await (prisma as any)[model].count({
+    where: {
+      entity_id: { in: await effectiveEntityIds(user.entityId) },
+      permission: { in: [permission, 'ADMINISTER'] as any },
+      ...(named
+        ? { [named.relation]: { guacamole_entity: { name: object, type: named.type as any } } }
+        : { [objectColumn]: object }),
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Putting a connection or connection group into connection group `parentId`, by creating it there
+ * or moving it in, needs UPDATE on that group. The ROOT group (null) has no permission rows, so it
+ * needs the system permission `rootPermission` instead.
+ */
+export async function assertCanPlaceUnder(
+  user: JWTPayload,
+  parentId: number | null,
+  rootPermission: SystemPermission
+): Promise<void> {
+  if (parentId === null) {
+    if (hasSystemPermission(user, rootPermission)) return;
+    throw new OperationalError(
+      `${rootPermission} permission required to place objects in the ROOT connection group`,
+      403,
+      'FORBIDDEN'
+    );
+  }
+  if (!(await hasObjectPermission(user, 'connection_group', parentId, 'UPDATE'))) {
+    throw new OperationalError(
+      `UPDATE permission on connection group ${parentId} required to place objects in it`,
+      403,
+      'FORBIDDEN'
+    );
+  }
+}
+
+/** Like Guacamole, the creator of an object gets full permissions on it. */
+export async function grantCreatorPermissions(
+  tx: any,
+  kind: ObjectKind,
+  objectId: number,
+  creatorEntityId?: number
+): Promise<void> {
+  if (!creatorEntityId) return;
+
+  const { model, objectColumn } = OBJECT_PERMISSION_TABLES[kind];
+  await tx[model].createMany({
+    data: OBJECT_PERMISSIONS.map((permission) => ({
+      entity_id: creatorEntityId,
+      [objectColumn]: objectId,
+      permission: permission as any,
+    })),
+  });
+}
@@ -0,0 +1,328 @@
+import { prisma } from "@/configs/database";
+import { OperationalError } from "@/utils/app-error";
+import {
+  cidrContains,
+  cidrsOverlap,
+  intToIp,
+  ipToInt,
+  isIPv4,
+  isNetworkOrBroadcast,
+  parseCidr,
+  ParsedCidr,
+} from "@/utils/ip.utils";
+
+export interface ReservedRange {
+  start_ip: string;
+  end_ip: string;
+  description?: string | null;
+}
+
+// The shape of a single pool returned to callers
+export interface GuacamoleIPPool {
+  pool_id: number;
+  pool_name: string;
+  cidr: string;
+  gateway: string;
+  group_name: string;
+  reserved_ranges: ReservedRange[];
+}
+
+export interface PoolInput {
+  pool_name: string;
+  cidr: string;
+  gateway: string;
+  group_name: string;
+  reserved_ranges?: ReservedRange[];
+}
+
+const poolSelect = {
+  pool_id: true,
+  pool_name: true,
+  cidr: true,
+  gateway: true,
+  group_name: true,
+  guacamole_ip_pool_reserved_range: {
+    select: { start_ip: true, end_ip: true, description: true },
+    orderBy: { range_id: "asc" as const },
+  },
+};
+
+function toPool(row: any): GuacamoleIPPool {
+  return {
+    pool_id: row.pool_id,
+    pool_name: row.pool_name,
+    cidr: row.cidr,
+    gateway: row.gateway,
+    group_name: row.group_name,
+    reserved_ranges: row.guacamole_ip_pool_reserved_range ?? [],
+  };
+}
+
+// Widest pool accepted: a /16 already holds 65k addresses
+const MIN_POOL_PREFIX = 16;
+
+/**
+ * Check a pool definition is self-consistent: the CIDR is no wider than a /16, the gateway is a
+ * host address inside it and every reserved range lies inside it too. Returns the parsed
+ * (normalised) CIDR.
+ */
+function assertPoolShape(input: PoolInput): ParsedCidr {
+  const range = parseCidr(input.cidr);
+  if (range.prefix < MIN_POOL_PREFIX) {
+    throw new OperationalError(`Pool ${range.cidr} is too large: use a /${MIN_POOL_PREFIX} or smaller`);
+  }
+
+  if (!cidrContains(range, input.gateway)) {
+    throw new OperationalError(`Gateway ${input.gateway} is outside ${range.cidr}`);
+  }
+  if (isNetworkOrBroadcast(range, input.gateway)) {
+    throw new OperationalError(
+      `Gateway ${input.gateway} is the network or broadcast address of ${range.cidr}`
+    );
+  }
+
+  for (const r of input.reserved_ranges ?? []) {
+    if (!cidrContains(range, r.start_ip) || !cidrContains(range, r.end_ip)) {
+      throw new OperationalError(`Reserved range ${r.start_ip}-${r.end_ip} is outside ${range.cidr}`);
+    }
+    if (ipToInt(r.start_ip) > ipToInt(r.end_ip)) {
+      throw new OperationalError(`Reserved range ${r.start_ip}-${r.end_ip} starts after it ends`);
+    }
+  }
+
+  return range;
+}
+
+async function assertNoOverlap(tx: any, range: ParsedCidr, excludePoolId?: number) {
+  const others = await tx.guacamole_ip_pool.findMany({
+    where: excludePoolId ? { pool_id: { not: excludePoolId } } : {},
+    select: { pool_name: true, cidr: true },
+  });
+  const clash = others.find((p: { cidr: string }) => cidrsOverlap(range, parseCidr(p.cidr)));
+  if (clash) {
+    throw new OperationalError(
+      `${range.cidr} overlaps pool ${clash.pool_name} (${clash.cidr})`,
+      409,
+      "CONFLICT"
+    );
+  }
+}
+
+/** Why `ip` cannot be handed out from `pool`, or null when it can. */
+export function ipRejectionReason(pool: GuacamoleIPPool, ip: string): string | null {
+  if (!isIPv4(ip)) return `${ip} is not a valid IPv4 address`;
+  const range = parseCidr(pool.cidr);
+  if (!cidrContains(range, ip)) return `${ip} is outside pool ${pool.pool_name} (${pool.cidr})`;
+  if (isNetworkOrBroadcast(range, ip)) return `${ip} is the network or broadcast address of ${pool.cidr}`;
+  if (ip === pool.gateway) return `${ip} is the gateway of pool ${pool.pool_name}`;
+
+  const n = ipToInt(ip);
+  const reserved = pool.reserved_ranges.find((r) => n >= ipToInt(r.start_ip) && n <= ipToInt(r.end_ip));
+  if (reserved) {
+    return `${ip} is reserved in pool ${pool.pool_name} (${reserved.start_ip}-${reserved.end_ip})`;
+  }
+
+  return null;
+}
+
+export function assertIpAssignable(pool: GuacamoleIPPool, ip: string): void {
+  const reason = ipRejectionReason(pool, ip);
+  if (reason) throw new OperationalError(reason);
+}
+
+/**
+ * IPs of every row that falls inside `pool`, loaded once so allocation can test candidates without
+ * a query each. Rows are narrowed in the database by the CIDR's fixed leading octets.
+ */
+export async function takenPoolIps(tx: any, pool: GuacamoleIPPool): Promise<Set<string>> {
+  const range = parseCidr(pool.cidr);
+  const octets = intToIp(range.network).split(".").slice(0, Math.floor(range.prefix / 8));
+  const rows = await tx.guacamole_user_available_ip.findMany({
+    where: octets.length > 0 ? { ip: { startsWith: `${octets.join(".")}.` } } : {},
+    select: { ip: true },
+  });
+  return new Set(
+    rows.map((r: { ip: string }) => r.ip).filter((ip: string) => isIPv4(ip) && cidrContains(range, ip))
+  );
+}
+
+/**
+ * First assignable address in `pool` at or after `from` (defaults to the start of the pool)
+ * that is not in `taken`. Throws when the pool is exhausted instead of rolling over.
+ */
+export function nextAssignableIp(
+  pool: GuacamoleIPPool,
+  from: string | undefined,
+  taken: Set<string>
+): string {
+  const range = parseCidr(pool.cidr);
+  let n = from ? ipToInt(from) : range.network;
+  if (n < range.network || n > range.broadcast) {
+    throw new OperationalError(`${from} is outside pool ${pool.pool_name} (${pool.cidr})`);
+  }
+
+  for (; n <= range.broadcast; n++) {
+    const candidate = intToIp(n);
+    if (taken.has(candidate) || ipRejectionReason(pool, candidate)) continue;
+    return candidate;
+  }
+  throw new OperationalError(
+    `Pool ${pool.pool_name} (${pool.cidr}) has no free addresses left`,
+    409,
+    "POOL_EXHAUSTED"
+  );
+}
+
+/**
+ * Find the pool an IP row belongs to. Pools never overlap and their gateway lies inside the
+ * CIDR, so the gateway alone identifies the pool; without one we fall back to the group's
+ * pool whose CIDR contains `ip`. Returns null when no pool matches, e.g. for rows created
+ * before pools existed.
+ */
+export async function findPool(
+  tx: any,
+  group: string,
+  gateway?: string | null,
+  ip?: string
+): Promise<GuacamoleIPPool | null> {
+  if (gateway) {
+    const row = await tx.guacamole_ip_pool.findFirst({ where: { gateway }, select: poolSelect });
+    if (!row) return null;
+    if (row.group_name !== group) {
+      throw new OperationalError(
+        `Pool ${row.pool_name} (gateway ${gateway}) belongs to group ${row.group_name}, not ${group}`
+      );
+    }
+    return toPool(row);
+  }
+
+  const rows = await tx.guacamole_ip_pool.findMany({ where: { group_name: group }, select: poolSelect });
+  const pools: GuacamoleIPPool[] = rows.map(toPool);
+  if (ip && !isIPv4(ip)) return null;
+  return (ip ? pools.find((p) => cidrContains(parseCidr(p.cidr), ip)) : pools[0]) ?? null;
+}
+
+/** Like findPool, but a missing pool is an error. */
+export async function resolvePool(
+  tx: any,
+  group: string,
+  gateway?: string | null,
+  ip?: string
+): Promise<GuacamoleIPPool> {
+  const pool = await findPool(tx, group, gateway, ip);
+  if (pool) return pool;
+  throw new OperationalError(
+    gateway
+      ? `No IP pool is configured with gateway ${gateway}`
+      : `No IP pool of group ${group} contains ${ip ?? "any address"}`
+  );
+}
+
+export const listPools = async (): Promise<GuacamoleIPPool[]> => {
+  const rows = await prisma.guacamole_ip_pool.findMany({ select: poolSelect, orderBy: { pool_name: "asc" } });
+  return rows.map(toPool);
+};
+
+export const getPool = async (poolId: number): Promise<GuacamoleIPPool> => {
+  const row = await prisma.guacamole_ip_pool.findUnique({ where: { pool_id: poolId }, select: poolSelect });
+  if (!row) throw new OperationalError(`Pool ${poolId} not found`, 404, "NOT_FOUND");
+  return toPool(row);
+};
+
+export const createPool = async (input: PoolInput): Promise<GuacamoleIPPool> => {
+  const range = assertPoolShape(input);
+
+  return prisma.$transaction(async (tx) => {
+    await assertNoOverlap(tx, range);
+
+    const row = await tx.guacamole_ip_pool.create({
+      data: {
+        pool_name: input.pool_name,
+        cidr: range.cidr,
+        gateway: input.gateway,
+        group_name: input.group_name,
+        guacamole_ip_pool_reserved_range: { create: input.reserved_ranges ?? [] },
+      },
+      select: poolSelect,
+    });
+    return toPool(row);
+  });
+};
+
+/**
+ * Replace a pool definition. IP rows of the pool follow it (group/gateway are rewritten),
+ * so every existing row must still be assignable under the new definition.
+ */
+export const updatePool = async (poolId: number, input: PoolInput): Promise<GuacamoleIPPool> => {
+  const range = assertPoolShape(input);
+
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.guacamole_ip_pool.findUnique({ where: { pool_id: poolId }, select: poolSelect });
+    if (!current) throw new OperationalError(`Pool ${poolId} not found`, 404, "NOT_FOUND");
+
+    await assertNoOverlap(tx, range, poolId);
+
+    const next: GuacamoleIPPool = {
+      ...input,
+      pool_id: poolId,
+      cidr: range.cidr,
+      reserved_ranges: input.reserved_ranges ?? [],
+    };
+    const rows = await tx.guacamole_user_available_ip.findMany({
+      where: { group_name: current.group_name, gateway: current.gateway },
+      select: { ip: true },
+    });
+    // malformed legacy rows were never valid under any pool, so they do not block the change
+    const rejected = rows
+      .filter((r: { ip: string }) => isIPv4(r.ip))
+      .map((r: { ip: string }) => ipRejectionReason(next, r.ip))
+      .filter(Boolean);
+    if (rejected.length > 0) {
+      throw new OperationalError(
+        `Existing IPs would become invalid: ${rejected.join("; ")}`,
+        409,
+        "CONFLICT"
+      );
+    }
+
+    await tx.guacamole_ip_pool_reserved_range.deleteMany({ where: { pool_id: poolId } });
+    const row = await tx.guacamole_ip_pool.update({
+      where: { pool_id: poolId },
+      data: {
+        pool_name: input.pool_name,
+        cidr: range.cidr,
+        gateway: input.gateway,
+        group_name: input.group_name,
+        guacamole_ip_pool_reserved_range: { create: input.reserved_ranges ?? [] },
+      },
+      select: poolSelect,
+    });
+
+    await tx.guacamole_user_available_ip.updateMany({
+      where: { group_name: current.group_name, gateway: current.gateway },
+      data: { group_name: input.group_name, gateway: input.gateway },
+    });
+
+    return toPool(row);
+  });
+};
+
+/** Delete a pool; refused while IP rows still belong to it. */
+export const deletePool = async (poolId: number): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const current = await tx.guacamole_ip_pool.findUnique({
+      where: { pool_id: poolId },
+      select: { pool_name: true, group_name: true, gateway: true },
+    });
+    if (!current) throw new OperationalError(`Pool ${poolId} not found`, 404, "NOT_FOUND");
+
+    const inUse = await tx.guacamole_user_available_ip.count({
+      where: { group_name: current.group_name, gateway: current.gateway },
+    });
+    if (inUse > 0) {
+      throw new OperationalError(`Pool ${current.pool_name} still has ${inUse} IP row(s)`, 409, "CONFLICT");
+    }
+
+    await tx.guacamole_ip_pool.delete({ where: { pool_id: poolId } });
+  });
+};
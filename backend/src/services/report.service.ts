@@ -0,0 +1,253 @@
+import { prisma } from "@/configs/database";
+import { linkIps } from "@/services/history.service";
+import { LEASED_IP_WHERE } from "@/services/lease.service";
+import { SecurityReport } from "@/types/index";
+import { toCsv } from "@/utils/csv.utils";
+import { PDF_LINE_CHARS, renderTextPdf } from "@/utils/pdf.utils";
+
+export type ReportType = "pool-utilisation" | "ip-sessions" | "user-sessions";
+export type ReportFormat = Extract<SecurityReport["format"], "json" | "csv" | "pdf">;
+
+export interface ReportPeriod {
+  from: Date;
+  to: Date;
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+}
+
+type ReportValue = string | number | null;
+
+// Every report is a table, so the same data renders as JSON, CSV or PDF
+export interface UsageReport {
+  type: ReportType;
+  title: string;
+  // null for point-in-time reports (pool utilisation)
+  period: ReportPeriod | null;
+  generated_at: Date;
+  columns: ReportColumn[];
+  rows: Record<string, ReportValue>[];
+}
+
+// groupBy row of poolUtilisation
+interface GroupCount {
+  group_name: string;
+  _count: { _all: number };
+}
+
+// Raw aggregate rows; COUNT and the SIGNED-cast SUM come back as BIGINT
+interface ConnectionUserSessions {
+  connection_id: number | null;
+  connection_name: string;
+  username: string;
+  sessions: bigint;
+  seconds: bigint | null;
+}
+
+interface UserSessions {
+  username: string;
+  connections: bigint;
+  sessions: bigint;
+  seconds: bigint | null;
+  last_session: Date;
+}
+
+// Running totals of one IP (or unlinked connection) in the per-IP report
+interface IpSessionTally {
+  ip: string | null;
+  group: string | null;
+  connections: Set<string>;
+  users: Set<string>;
+  sessions: number;
+  seconds: number;
+}
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/** IP rows per group: total, leased and free, plus how many pools the group has. */
+async function poolUtilisation(): Promise<Pick<UsageReport, "title" | "columns" | "rows">> {
+  const [totals, leased, pools] = await Promise.all([
+    prisma.guacamole_user_available_ip.groupBy({ by: ["group_name"], _count: { _all: true } }),
+    prisma.guacamole_user_available_ip.groupBy({
+      by: ["group_name"],
+      where: LEASED_IP_WHERE,
+      _count: { _all: true },
+    }),
+    prisma.guacamole_ip_pool.groupBy({ by: ["group_name"], _count: { _all: true } }),
+  ]);
+
+  const countOf = (rows: GroupCount[], group: string): number =>
+    rows.find((r) => r.group_name === group)?._count._all ?? 0;
+  const groups = [...new Set<string>([...totals, ...pools].map((r: GroupCount) => r.group_name))].sort();
+
+  return {
+    title: "IP pool utilisation per group",
+    columns: [
+      { key: "group", label: "Group" },
+      { key: "pools", label: "Pools" },
+      { key: "total", label: "Total IPs" },
+      { key: "leased", label: "Leased" },
+      { key: "free", label: "Free" },
+      { key: "utilisation", label: "Utilisation %" },
+    ],
+    rows: groups.map((group) => {
+      const total = countOf(totals, group);
+      const inUse = countOf(leased, group);
+      return {
+        group,
+        pools: countOf(pools, group),
+        total,
+        leased: inUse,
+        free: total - inUse,
+        utilisation: total > 0 ? round((inUse / total) * 100, 1) : 0,
+      };
+    }),
+  };
+}
+
+/**
+ * Session hours per secure machine IP; sessions of connections without an IP row are listed by name.
+ * Sessions are summed in the database per connection and user, so memory grows with the number of
+ * connections and users rather than with the number of sessions.
+ */
+async function ipSessions(period: ReportPeriod): Promise<Pick<UsageReport, "title" | "columns" | "rows">> {
+  const now = new Date();
+  // each session is clipped to the period; active sessions count up to now
+  const groups = await prisma.$queryRaw<ConnectionUserSessions[]>`
+    SELECT connection_id, connection_name, username, COUNT(*) AS sessions,
+      CAST(SUM(GREATEST(0, TIMESTAMPDIFF(SECOND,
+        GREATEST(start_date, ${period.from}),
+        LEAST(COALESCE(end_date, ${now}), ${period.to})))) AS SIGNED) AS seconds
+    FROM guacamole_connection_history
+    WHERE start_date <= ${period.to} AND (end_date >= ${period.from} OR end_date IS NULL)
+    GROUP BY connection_id, connection_name, username`;
+  const links = await linkIps([
+    ...new Set<number>(groups.flatMap((g) => (g.connection_id === null ? [] : [g.connection_id]))),
+  ]);
+
+  const byIp = new Map<string, IpSessionTally>();
+  for (const g of groups) {
+    const ip = g.connection_id !== null ? links.get(g.connection_id) : undefined;
+    const key = ip ? `ip:${ip.id}` : `connection:${g.connection_name}`;
+    const entry = byIp.get(key) ?? {
+      ip: ip?.ip ?? null,
+      group: ip?.group_name ?? null,
+      connections: new Set<string>(),
+      users: new Set<string>(),
+      sessions: 0,
+      seconds: 0,
+    };
+    entry.connections.add(g.connection_name);
+    entry.users.add(g.username);
+    entry.sessions += Number(g.sessions);
+    entry.seconds += Number(g.seconds ?? 0);
+    byIp.set(key, entry);
+  }
+
+  return {
+    title: "Session hours per IP",
+    columns: [
+      { key: "ip", label: "IP" },
+      { key: "group", label: "Group" },
+      { key: "connections", label: "Connections" },
+      { key: "users", label: "Users" },
+      { key: "sessions", label: "Sessions" },
+      { key: "hours", label: "Hours" },
+    ],
+    rows: [...byIp.values()]
+      .sort((a, b) => b.seconds - a.seconds)
+      .map((e) => ({
+        ip: e.ip,
+        group: e.group,
+        connections: [...e.connections].sort().join(" "),
+        users: e.users.size,
+        sessions: e.sessions,
+        hours: round(e.seconds / 3600),
+      })),
+  };
+}
+
+/** Session hours per user, with how many distinct connections they used; summed in the database. */
+async function userSessions(period: ReportPeriod): Promise<Pick<UsageReport, "title" | "columns" | "rows">> {
+  const now = new Date();
+  const users = await prisma.$queryRaw<UserSessions[]>`
+    SELECT username, COUNT(DISTINCT connection_name) AS connections, COUNT(*) AS sessions,
+      CAST(SUM(GREATEST(0, TIMESTAMPDIFF(SECOND,
+        GREATEST(start_date, ${period.from}),
+        LEAST(COALESCE(end_date, ${now}), ${period.to})))) AS SIGNED) AS seconds,
+      MAX(start_date) AS last_session
+    FROM guacamole_connection_history
+    WHERE start_date <= ${period.to} AND (end_date >= ${period.from} OR end_date IS NULL)
+    GROUP BY username
+    ORDER BY seconds DESC`;
+
+  return {
+    title: "Session hours per user",
+    columns: [
+      { key: "username", label: "User" },
+      { key: "connections", label: "Connections" },
+      { key: "sessions", label: "Sessions" },
+      { key: "hours", label: "Hours" },
+      { key: "last_session", label: "Last session" },
+    ],
+    rows: users.map((u) => ({
+      username: u.username,
+      connections: Number(u.connections),
+      sessions: Number(u.sessions),
+      hours: round(Number(u.seconds ?? 0) / 3600),
+      last_session: u.last_session.toISOString(),
+    })),
+  };
+}
+
+export const buildReport = async (type: ReportType, period: ReportPeriod): Promise<UsageReport> => {
+  const table =
+    type === "pool-utilisation"
+      ? await poolUtilisation()
+      : type === "ip-sessions"
+        ? await ipSessions(period)
+        : await userSessions(period);
+
+  return {
+    type,
+    ...table,
+    period: type === "pool-utilisation" ? null : period,
+    generated_at: new Date(),
+  };
+};
+
+export function reportToCsv(report: UsageReport): string {
+  return toCsv(
+    report.columns.map((c) => c.label),
+    report.rows.map((row) => report.columns.map((c) => row[c.key]))
+  );
+}
+
+/** Printable PDF: a header block followed by the table in fixed-width columns. */
+export function reportToPdf(report: UsageReport): Buffer {
+  const text = (v: ReportValue) => (v === null ? "-" : String(v));
+  const widths = report.columns.map((c) =>
+    Math.min(40, Math.max(c.label.length, ...report.rows.map((r) => text(r[c.key]).length)))
+  );
+  // over-long cells are cut and marked with '~'
+  const fit = (cell: string, width: number) =>
+    cell.length > width ? `${cell.slice(0, width - 1)}~` : cell.padEnd(width);
+  const line = (cells: string[]) => cells.map((cell, i) => fit(cell, widths[i])).join("  ");
+  const rule = "-".repeat(Math.min(PDF_LINE_CHARS, widths.reduce((sum, w) => sum + w + 2, -2)));
+
+  return renderTextPdf([
+    report.title,
+    report.period
+      ? `Period: ${report.period.from.toISOString()} to ${report.period.to.toISOString()}`
+      : "Point in time",
+    `Generated: ${report.generated_at.toISOString()}`,
+    "",
+    line(report.columns.map((c) => c.label)),
+    rule,
+    ...report.rows.map((row) => line(report.columns.map((c) => text(row[c.key])))),
+    rule,
+    `${report.rows.length} row(s)`,
+  ]);
+}
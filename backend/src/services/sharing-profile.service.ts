@@ -0,0 +1,231 @@
+import { prisma } from "@/configs/database";
+import { grantCreatorPermissions, hasObjectPermission } from "@/services/policy.service";
+import { JWTPayload } from "@/types/index";
+import { OperationalError } from "@/utils/app-error";
+
+// The shape of a single sharing profile returned to callers
+export interface GuacamoleSharingProfile {
+  sharing_profile_id: number;
+  sharing_profile_name: string;
+  primary_connection_id: number;
+  connection_name: string;
+  parameters: Record<string, string>;
+  // user groups holding READ on the profile, i.e. allowed to join sessions through it
+  granted_groups: string[];
+}
+
+export interface SharingProfileInput {
+  sharing_profile_name: string;
+  primary_connection_id: number;
+  parameters?: Record<string, string>;
+}
+
+const sharingProfileSelect = {
+  sharing_profile_id: true,
+  sharing_profile_name: true,
+  primary_connection_id: true,
+  guacamole_connection: { select: { connection_name: true } },
+  guacamole_sharing_profile_parameter: { select: { parameter_name: true, parameter_value: true } },
+  guacamole_sharing_profile_permission: {
+    where: { permission: "READ" as any, guacamole_entity: { type: "USER_GROUP" as any } },
+    select: { guacamole_entity: { select: { name: true } } },
+  },
+};
+
+function toSharingProfile(row: any): GuacamoleSharingProfile {
+  return {
+    sharing_profile_id: row.sharing_profile_id,
+    sharing_profile_name: row.sharing_profile_name,
+    primary_connection_id: row.primary_connection_id,
+    connection_name: row.guacamole_connection?.connection_name,
+    parameters: Object.fromEntries(
+      (row.guacamole_sharing_profile_parameter ?? []).map((p: any) => [p.parameter_name, p.parameter_value])
+    ),
+    granted_groups: (row.guacamole_sharing_profile_permission ?? [])
+      .map((p: any) => p.guacamole_entity.name)
+      .sort(),
+  };
+}
+
+const toParameterRows = (parameters: Record<string, string>) =>
+  Object.entries(parameters).map(([parameter_name, parameter_value]) => ({
+    parameter_name,
+    parameter_value,
+  }));
+
+const notFound = (id: number) => new OperationalError(`Sharing profile ${id} not found`, 404, "NOT_FOUND");
+
+async function findProfileOrThrow(tx: any, sharingProfileId: number): Promise<GuacamoleSharingProfile> {
+  const row = await tx.guacamole_sharing_profile.findUnique({
+    where: { sharing_profile_id: sharingProfileId },
+    select: sharingProfileSelect,
+  });
+  if (!row) throw notFound(sharingProfileId);
+  return toSharingProfile(row);
+}
+
+// Guacamole keys sharing profiles by name within their primary connection
+async function assertPlacement(tx: any, input: SharingProfileInput, excludeId?: number) {
+  const connection = await tx.guacamole_connection.findUnique({
+    where: { connection_id: input.primary_connection_id },
+    select: { connection_id: true },
+  });
+  if (!connection) {
+    throw new OperationalError(`Connection ${input.primary_connection_id} not found`, 404, "NOT_FOUND");
+  }
+
+  const clash = await tx.guacamole_sharing_profile.findFirst({
+    where: {
+      sharing_profile_name: input.sharing_profile_name,
+      primary_connection_id: input.primary_connection_id,
+      ...(excludeId && { sharing_profile_id: { not: excludeId } }),
+    },
+    select: { sharing_profile_id: true },
+  });
+  if (clash) {
+    throw new OperationalError(
+      `A sharing profile named ${input.sharing_profile_name} already exists for this connection`,
+      409,
+      "CONFLICT"
+    );
+  }
+}
+
+// A profile hands out access to its primary connection, so attaching one needs UPDATE on it
+async function assertCanShare(user: JWTPayload, connectionId: number) {
+  if (!(await hasObjectPermission(user, "connection", connectionId, "UPDATE"))) {
+    throw new OperationalError(
+      `UPDATE permission on connection ${connectionId} required to attach a sharing profile to it`,
+      403,
+      "FORBIDDEN"
+    );
+  }
+}
+
+async function findGroupEntityId(tx: any, group: string): Promise<number> {
+  const entity = await tx.guacamole_entity.findFirst({
+    where: { name: group, type: "USER_GROUP" as any },
+    select: { entity_id: true },
+  });
+  if (!entity) throw new OperationalError(`Group ${group} not found`, 404, "NOT_FOUND");
+  return entity.entity_id;
+}
+
+/** Sharing profiles, optionally only those of one connection, ordered by connection then name. */
+export const listSharingProfiles = async (connectionId?: number): Promise<GuacamoleSharingProfile[]> => {
+  const rows = await prisma.guacamole_sharing_profile.findMany({
+    where: connectionId ? { primary_connection_id: connectionId } : {},
+    select: sharingProfileSelect,
+    orderBy: [{ primary_connection_id: "asc" }, { sharing_profile_name: "asc" }],
+  });
+  return rows.map(toSharingProfile);
+};
+
+export const getSharingProfile = async (sharingProfileId: number): Promise<GuacamoleSharingProfile> =>
+  findProfileOrThrow(prisma, sharingProfileId);
+
+/**
+ * Create a sharing profile for a connection; the creator needs UPDATE on the connection and gets
+ * full permissions on the profile.
+ */
+export const createSharingProfile = async (
+  input: SharingProfileInput,
+  creator?: JWTPayload
+): Promise<GuacamoleSharingProfile> => {
+  const { parameters = {}, ...fields } = input;
+
+  return prisma.$transaction(async (tx) => {
+    await assertPlacement(tx, input);
+    if (creator) await assertCanShare(creator, input.primary_connection_id);
+
+    const row = await tx.guacamole_sharing_profile.create({
+      data: { ...fields, guacamole_sharing_profile_parameter: { create: toParameterRows(parameters) } },
+      select: { sharing_profile_id: true },
+    });
+
+    await grantCreatorPermissions(tx, "sharing_profile", row.sharing_profile_id, creator?.entityId);
+
+    return findProfileOrThrow(tx, row.sharing_profile_id);
+  });
+};
+
+/**
+ * Replace a sharing profile definition. Parameters are replaced as a whole when given, kept otherwise.
+ * Re-pointing it at another primary connection needs UPDATE on that connection.
+ */
+export const updateSharingProfile = async (
+  sharingProfileId: number,
+  input: SharingProfileInput,
+  user?: JWTPayload
+): Promise<GuacamoleSharingProfile> => {
+  const { parameters, ...fields } = input;
+
+  return prisma.$transaction(async (tx) => {
+    const current = await findProfileOrThrow(tx, sharingProfileId);
+    await assertPlacement(tx, input, sharingProfileId);
+    if (user && input.primary_connection_id !== current.primary_connection_id) {
+      await assertCanShare(user, input.primary_connection_id);
+    }
+
+    if (parameters) {
+      await tx.guacamole_sharing_profile_parameter.deleteMany({
+        where: { sharing_profile_id: sharingProfileId },
+      });
+    }
+    await tx.guacamole_sharing_profile.update({
+      where: { sharing_profile_id: sharingProfileId },
+      data: {
+        ...fields,
+        ...(parameters && { guacamole_sharing_profile_parameter: { create: toParameterRows(parameters) } }),
+      },
+    });
+    return findProfileOrThrow(tx, sharingProfileId);
+  });
+};
+
+/** Delete a sharing profile; parameters, attributes and permissions cascade with it. */
+export const deleteSharingProfile = async (sharingProfileId: number): Promise<void> => {
+  const { count } = await prisma.guacamole_sharing_profile.deleteMany({
+    where: { sharing_profile_id: sharingProfileId },
+  });
+  if (count === 0) throw notFound(sharingProfileId);
+};
+
+/** Let members of `group` join sessions of the primary connection through this profile (READ). */
+export const grantSharingProfile = async (
+  sharingProfileId: number,
+  group: string
+): Promise<GuacamoleSharingProfile> => {
+  return prisma.$transaction(async (tx) => {
+    await findProfileOrThrow(tx, sharingProfileId);
+    const entityId = await findGroupEntityId(tx, group);
+
+    await tx.guacamole_sharing_profile_permission.createMany({
+      data: [{ entity_id: entityId, sharing_profile_id: sharingProfileId, permission: "READ" as any }],
+      skipDuplicates: true,
+    });
+    return findProfileOrThrow(tx, sharingProfileId);
+  });
+};
+
+export const revokeSharingProfile = async (
+  sharingProfileId: number,
+  group: string
+): Promise<GuacamoleSharingProfile> => {
+  return prisma.$transaction(async (tx) => {
+    await findProfileOrThrow(tx, sharingProfileId);
+    const entityId = await findGroupEntityId(tx, group);
+
+    const { count } = await tx.guacamole_sharing_profile_permission.deleteMany({
+      where: { entity_id: entityId, sharing_profile_id: sharingProfileId, permission: "READ" as any },
+    });
+    if (count === 0) {
+      throw new OperationalError(
+        `Group ${group} has no access to sharing profile ${sharingProfileId}`,
+        404,
+        "NOT_FOUND"
+      );
+    }
+    return findProfileOrThrow(tx, sharingProfileId);
+  });
+};
@@ -0,0 +1,233 @@
+import { prisma } from "@/configs/database";
+import { passwordPolicyConfig } from "@/configs/password-policy.config";
+import { RELEASED_IP_DATA } from "@/services/lease.service";
+import { assertPasswordPolicy } from "@/services/password-policy.service";
+import { grantCreatorPermissions } from "@/services/policy.service";
+import { OperationalError } from "@/utils/app-error";
+import { generateSalt, hashGuacamolePassword } from "@/utils/guacamole-password.utils";
+
+// Account restrictions Guacamole enforces at login (see assertAccountUsable in auth.service.ts)
+export interface UserRestrictions {
+  disabled: boolean;
+  expired: boolean;
+  access_window_start: string | null; // HH:MM:SS
+  access_window_end: string | null;
+  valid_from: string | null; // YYYY-MM-DD
+  valid_until: string | null;
+  timezone: string | null;
+}
+
+export interface UserProfile {
+  full_name: string | null;
+  email_address: string | null;
+  organization: string | null;
+  organizational_role: string | null;
+}
+
+// The shape of a single user returned to callers; hashes never leave the service
+export interface GuacamoleUser extends UserRestrictions, UserProfile {
+  user_id: number;
+  username: string;
+  password_date: Date;
+}
+
+export type UserChanges = Partial<UserRestrictions & UserProfile>;
+
+export interface CreateUserInput extends UserChanges {
+  username: string;
+  password: string;
+}
+
+const userSelect = {
+  user_id: true,
+  password_date: true,
+  disabled: true,
+  expired: true,
+  access_window_start: true,
+  access_window_end: true,
+  valid_from: true,
+  valid_until: true,
+  timezone: true,
+  full_name: true,
+  email_address: true,
+  organization: true,
+  organizational_role: true,
+  guacamole_entity: { select: { name: true } },
+};
+
+// TIME columns are read and written as 1970-01-01T<time>Z, DATE columns as <date>T00:00:00Z
+const toTime = (t: string | null) => (t === null ? null : new Date(`1970-01-01T${t}Z`));
+const fromTime = (t: Date | null) => (t ? t.toISOString().slice(11, 19) : null);
+const toDate = (d: string | null) => (d === null ? null : new Date(`${d}T00:00:00Z`));
+const fromDate = (d: Date | null) => (d ? d.toISOString().slice(0, 10) : null);
+
+function toUser({ guacamole_entity, ...row }: any): GuacamoleUser {
+  return {
+    ...row,
+    username: guacamole_entity.name,
+    access_window_start: fromTime(row.access_window_start),
+    access_window_end: fromTime(row.access_window_end),
+    valid_from: fromDate(row.valid_from),
+    valid_until: fromDate(row.valid_until),
+  };
+}
+
+// Column values for the fields present in `changes`; absent fields are left untouched
+function toColumns(changes: UserChanges) {
+  const { access_window_start, access_window_end, valid_from, valid_until, ...rest } = changes;
+  return {
+    ...rest,
+    ...(access_window_start !== undefined && { access_window_start: toTime(access_window_start) }),
+    ...(access_window_end !== undefined && { access_window_end: toTime(access_window_end) }),
+    ...(valid_from !== undefined && { valid_from: toDate(valid_from) }),
+    ...(valid_until !== undefined && { valid_until: toDate(valid_until) }),
+  };
+}
+
+// Salted the way Guacamole's JDBC auth expects, so the account also works in Guacamole itself
+function newPasswordColumns(password: string) {
+  const salt = generateSalt();
+  return {
+    password_hash: hashGuacamolePassword(password, salt),
+    password_salt: salt,
+    password_date: new Date(),
+  };
+}
+
+const notFound = (username: string) => new OperationalError(`User ${username} not found`, 404, "NOT_FOUND");
+
+async function findUserRow(tx: any, username: string) {
+  return tx.guacamole_user.findFirst({
+    where: { guacamole_entity: { name: username, type: "USER" as any } },
+    select: { ...userSelect, password_hash: true, password_salt: true },
+  });
+}
+
+export const listUsers = async (): Promise<GuacamoleUser[]> => {
+  const rows = await prisma.guacamole_user.findMany({
+    select: userSelect,
+    orderBy: { guacamole_entity: { name: "asc" } },
+  });
+  return rows.map(toUser);
+};
+
+export const getUser = async (username: string): Promise<GuacamoleUser> => {
+  const row = await prisma.guacamole_user.findFirst({
+    where: { guacamole_entity: { name: username, type: "USER" as any } },
+    select: userSelect,
+  });
+  if (!row) throw notFound(username);
+  return toUser(row);
+};
+
+/** Create a user (entity + account); the creator gets full permissions on it. */
+export const createUser = async (
+  input: CreateUserInput,
+  creatorEntityId?: number
+): Promise<GuacamoleUser> => {
+  const { username, password, ...changes } = input;
+  assertPasswordPolicy(password, username);
+
+  return prisma.$transaction(async (tx) => {
+    const clash = await tx.guacamole_entity.findFirst({
+      where: { name: username, type: "USER" as any },
+      select: { entity_id: true },
+    });
+    if (clash) throw new OperationalError(`User ${username} already exists`, 409, "CONFLICT");
+
+    const entity = await tx.guacamole_entity.create({
+      data: { name: username, type: "USER" as any },
+      select: { entity_id: true },
+    });
+    const row = await tx.guacamole_user.create({
+      data: { entity_id: entity.entity_id, ...newPasswordColumns(password), ...toColumns(changes) },
+      select: userSelect,
+    });
+
+    await grantCreatorPermissions(tx, "user", row.user_id, creatorEntityId);
+
+    return toUser(row);
+  });
+};
+
+/** Apply restriction/profile changes (disable, expire, access window, validity, timezone, ...). */
+export const updateUser = async (username: string, changes: UserChanges): Promise<GuacamoleUser> => {
+  return prisma.$transaction(async (tx) => {
+    const current = await findUserRow(tx, username);
+    if (!current) throw notFound(username);
+
+    const row = await tx.guacamole_user.update({
+      where: { user_id: current.user_id },
+      data: toColumns(changes),
+      select: userSelect,
+    });
+    return toUser(row);
+  });
+};
+
+/**
+ * Set a new password after checking it against the password policy, including reuse of the
+ * current or recent passwords. The previous hash is kept in guacamole_user_password_history
+ * (trimmed to the policy's history size, as Guacamole does; none is kept when the size is 0)
+ * and a new password clears `expired`.
+ */
+export const setUserPassword = async (username: string, password: string): Promise<GuacamoleUser> => {
+  return prisma.$transaction(async (tx) => {
+    const current = await findUserRow(tx, username);
+    if (!current) throw notFound(username);
+
+    const { historySize } = passwordPolicyConfig;
+    const history = await tx.guacamole_user_password_history.findMany({
+      where: { user_id: current.user_id },
+      select: { password_hash: true, password_salt: true },
+      orderBy: { password_date: "desc" },
+      take: historySize,
+    });
+    assertPasswordPolicy(password, username, [current, ...history]);
+
+    if (historySize > 0) {
+      await tx.guacamole_user_password_history.create({
+        data: {
+          user_id: current.user_id,
+          password_hash: current.password_hash,
+          password_salt: current.password_salt,
+          password_date: current.password_date,
+        },
+      });
+    }
+    // with history off (size 0) every row is stale
+    const stale = await tx.guacamole_user_password_history.findMany({
+      where: { user_id: current.user_id },
+      select: { password_history_id: true },
+      orderBy: { password_date: "desc" },
+      skip: historySize,
+    });
+    await tx.guacamole_user_password_history.deleteMany({
+      where: { password_history_id: { in: stale.map((h: any) => h.password_history_id) } },
+    });
+
+    const row = await tx.guacamole_user.update({
+      where: { user_id: current.user_id },
+      data: { ...newPasswordColumns(password), expired: false },
+      select: userSelect,
+    });
+    return toUser(row);
+  });
+};
+
+/**
+ * Delete a user; the account, its permissions and password history cascade with the entity.
+ * IP rows have no foreign key to the user, so its leases are released here.
+ */
+export const deleteUser = async (username: string): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const current = await findUserRow(tx, username);
+    if (!current) throw notFound(username);
+
+    await tx.guacamole_user_available_ip.updateMany({
+      where: { OR: [{ user_id: current.user_id }, { username }] },
+      data: RELEASED_IP_DATA,
+    });
+    await tx.guacamole_entity.deleteMany({ where: { name: username, type: "USER" as any } });
+  });
+};
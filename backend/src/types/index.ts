@@ -22,7 +22,7 @@ export interface AuthTokens {
 }
 
 export interface LoginRequest {
-  email: string;
+  username: string;
   password: string;
 }
 
@@ -39,14 +39,30 @@ export interface TwoFactorRequest {
   otp: string;
 }
 
+// Guacamole permission enums (see prisma/schema.prisma)
+export type SystemPermission =
+  | 'CREATE_CONNECTION'
+  | 'CREATE_CONNECTION_GROUP'
+  | 'CREATE_SHARING_PROFILE'
+  | 'CREATE_USER'
+  | 'CREATE_USER_GROUP'
+  | 'ADMINISTER';
+
+export type ObjectPermission = 'READ' | 'UPDATE' | 'DELETE' | 'ADMINISTER';
+
+export type Role = 'admin' | 'operator' | 'read-only';
+
 export interface JWTPayload extends JwtPayload {
   userId: string;
-  email: string;
-  role: string;
+  entityId: number;
+  username: string;
+  email?: string | null;
+  role: Role;
+  permissions: SystemPermission[];
 }
 
 export interface AuthenticatedRequest extends Request {
-  user?: User;
+  user?: JWTPayload;
 }
 
 // Analysis and Job Types
@@ -0,0 +1,24 @@
+// utils/app-error.ts
+import { AppError } from '@/types/index';
+
+/**
+ * Operational error thrown by services when a request is understood but cannot be honoured
+ * (bad input, missing row, conflict). Controllers use `statusCode` instead of a blanket 500,
+ * and pass `details` (e.g. the current server state on a conflict) back to the client.
+ */
+export class OperationalError extends Error implements AppError {
+  readonly isOperational = true;
+
+  constructor(
+    message: string,
+    public readonly statusCode: number = 400,
+    public readonly errorCode: string = 'BAD_REQUEST',
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'OperationalError';
+  }
+}
+
+export const statusCodeOf = (error: any): number =>
+  error?.isOperational && Number.isInteger(error.statusCode) ? error.statusCode : 500;
@@ -0,0 +1,17 @@
+// utils/csv.utils.ts
+
+type Cell = string | number | boolean | null | undefined;
+
+/**
+ * RFC 4180 CSV with a header row. Text starting with = + - @ is prefixed with ' so spreadsheet
+ * apps do not evaluate it as a formula.
+ */
+export function toCsv(header: string[], rows: Cell[][]): string {
+  const escape = (value: Cell) => {
+    if (value === null || value === undefined) return "";
+    let text = String(value);
+    if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map((row) => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
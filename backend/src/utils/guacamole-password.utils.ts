@@ -0,0 +1,23 @@
+// utils/guacamole-password.utils.ts
+// Guacamole's JDBC auth stores SHA-256(password + HEX(salt)) where HEX is the upper-case hex of the
+// 32 random salt bytes. Accounts created without a salt hash the bare password.
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export function generateSalt(): Buffer {
+  return randomBytes(32);
+}
+
+export function hashGuacamolePassword(password: string, salt?: Uint8Array | null): Buffer {
+  const saltHex = salt ? Buffer.from(salt).toString('hex').toUpperCase() : '';
+  return createHash('sha256').update(password + saltHex, 'utf8').digest();
+}
+
+export function verifyGuacamolePassword(
+  password: string,
+  hash: Uint8Array,
+  salt?: Uint8Array | null
+): boolean {
+  const expected = Buffer.from(hash);
+  const actual = hashGuacamolePassword(password, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  cidrContains,
+  cidrsOverlap,
+  intToIp,
+  ipSortKey,
+  ipToInt,
+  isIPv4,
+  isNetworkOrBroadcast,
+  isValidCidr,
+  parseCidr,
+} from "@/utils/ip.utils";
+
+describe("isIPv4", () => {
+  it("accepts dotted quads within range", () => {
+    assert.equal(isIPv4("10.0.0.1"), true);
+    assert.equal(isIPv4("255.255.255.255"), true);
+  });
+
+  it("rejects anything else", () => {
+    for (const ip of ["10.0.0", "10.0.0.256", "10.0.0.1.1", "a.b.c.d", "10.0.0.-1", "", " 10.0.0.1"]) {
+      assert.equal(isIPv4(ip), false, ip);
+    }
+    assert.equal(isIPv4(undefined as any), false);
+  });
+});
+
+describe("ipToInt / intToIp", () => {
+  it("round-trips as unsigned 32-bit", () => {
+    assert.equal(ipToInt("0.0.0.0"), 0);
+    assert.equal(ipToInt("10.0.0.9"), 167772169);
+    assert.equal(ipToInt("255.255.255.255"), 4294967295);
+    assert.equal(intToIp(4294967295), "255.255.255.255");
+    assert.equal(intToIp(ipToInt("192.168.1.200")), "192.168.1.200");
+  });
+
+  it("throws a 400 on a malformed address", () => {
+    assert.throws(() => ipToInt("10.0.0.300"), { statusCode: 400, message: /Invalid IPv4 address/ });
+  });
+});
+
+describe("ipSortKey", () => {
+  it("orders numerically and puts malformed values first", () => {
+    const sorted = ["10.0.0.10", "bogus", "10.0.0.9"].sort((a, b) => ipSortKey(a) - ipSortKey(b));
+    assert.deepEqual(sorted, ["bogus", "10.0.0.9", "10.0.0.10"]);
+  });
+});
+
+describe("parseCidr", () => {
+  it("normalises the network address", () => {
+    const range = parseCidr("10.1.2.77/24");
+    assert.equal(range.cidr, "10.1.2.0/24");
+    assert.equal(range.prefix, 24);
+    assert.equal(intToIp(range.network), "10.1.2.0");
+    assert.equal(intToIp(range.broadcast), "10.1.2.255");
+  });
+
+  it("handles /0 and /32", () => {
+    assert.equal(parseCidr("1.2.3.4/0").broadcast, 4294967295);
+    const host = parseCidr("1.2.3.4/32");
+    assert.equal(host.network, host.broadcast);
+  });
+
+  it("throws a 400 on bad input", () => {
+    for (const cidr of ["10.0.0.0", "10.0.0.0/33", "10.0.0.0/x", "10.0.0/24", "10.0.0.0/-1"]) {
+      assert.throws(() => parseCidr(cidr), { statusCode: 400, message: /Invalid CIDR/ }, cidr);
+      assert.equal(isValidCidr(cidr), false, cidr);
+    }
+  });
+});
+
+describe("cidrContains / cidrsOverlap", () => {
+  const range = parseCidr("192.168.4.0/22");
+
+  it("includes both ends of the range", () => {
+    assert.equal(cidrContains(range, "192.168.4.0"), true);
+    assert.equal(cidrContains(range, "192.168.7.255"), true);
+    assert.equal(cidrContains(range, "192.168.8.0"), false);
+    assert.equal(cidrContains(range, "192.168.3.255"), false);
+  });
+
+  it("detects overlapping and adjacent ranges", () => {
+    assert.equal(cidrsOverlap(range, parseCidr("192.168.6.0/24")), true);
+    assert.equal(cidrsOverlap(range, parseCidr("192.168.0.0/16")), true);
+    assert.equal(cidrsOverlap(range, parseCidr("192.168.8.0/24")), false);
+  });
+});
+
+describe("isNetworkOrBroadcast", () => {
+  it("flags the first and last address up to /30", () => {
+    const range = parseCidr("10.0.0.0/30");
+    assert.equal(isNetworkOrBroadcast(range, "10.0.0.0"), true);
+    assert.equal(isNetworkOrBroadcast(range, "10.0.0.3"), true);
+    assert.equal(isNetworkOrBroadcast(range, "10.0.0.1"), false);
+  });
+
+  it("uses every address of /31 and /32", () => {
+    assert.equal(isNetworkOrBroadcast(parseCidr("10.0.0.0/31"), "10.0.0.0"), false);
+    assert.equal(isNetworkOrBroadcast(parseCidr("10.0.0.1/32"), "10.0.0.1"), false);
+  });
+});
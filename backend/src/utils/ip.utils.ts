@@ -0,0 +1,69 @@
+// utils/ip.utils.ts
+// Small IPv4 helpers shared by the IP and pool services.
+import { OperationalError } from "@/utils/app-error";
+
+export interface ParsedCidr {
+  cidr: string;
+  prefix: number;
+  network: number; // network address as unsigned 32-bit int
+  broadcast: number; // broadcast address as unsigned 32-bit int
+}
+
+export function isIPv4(ip: string): boolean {
+  if (typeof ip !== "string") return false;
+  const parts = ip.split(".");
+  return parts.length === 4 && parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255);
+}
+
+export function ipToInt(ip: string): number {
+  if (!isIPv4(ip)) throw new OperationalError(`Invalid IPv4 address: ${ip}`);
+  return ip.split(".").reduce((acc, p) => acc * 256 + Number(p), 0);
+}
+
+// Numeric sort key that never throws: malformed legacy values sort before every valid IP
+export function ipSortKey(ip: string): number {
+  return isIPv4(ip) ? ipToInt(ip) : -1;
+}
+
+export function intToIp(n: number): string {
+  return [(n >>> 24) & 255, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join(".");
+}
+
+export function parseCidr(cidr: string): ParsedCidr {
+  const [addr, bits] = String(cidr).split("/");
+  const prefix = Number(bits);
+  if (!isIPv4(addr) || !/^\d{1,2}$/.test(bits ?? "") || prefix > 32) {
+    throw new OperationalError(`Invalid CIDR: ${cidr}`);
+  }
+  const size = 2 ** (32 - prefix);
+  const network = Math.floor(ipToInt(addr) / size) * size;
+  return { cidr: `${intToIp(network)}/${prefix}`, prefix, network, broadcast: network + size - 1 };
+}
+
+export function isValidCidr(cidr: string): boolean {
+  try {
+    parseCidr(cidr);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function cidrContains(range: ParsedCidr, ip: string): boolean {
+  const n = ipToInt(ip);
+  return n >= range.network && n <= range.broadcast;
+}
+
+export function cidrsOverlap(a: ParsedCidr, b: ParsedCidr): boolean {
+  return a.network <= b.broadcast && b.network <= a.broadcast;
+}
+
+/**
+ * Network and broadcast addresses are only meaningful for prefixes up to /30;
+ * /31 (point-to-point) and /32 (single host) use every address.
+ */
+export function isNetworkOrBroadcast(range: ParsedCidr, ip: string): boolean {
+  if (range.prefix >= 31) return false;
+  const n = ipToInt(ip);
+  return n === range.network || n === range.broadcast;
+}
@@ -0,0 +1,73 @@
+// utils/pdf.utils.ts
+// Minimal PDF 1.4 writer for printable, text-only reports: monospaced (Courier) lines on A4
+// landscape pages. Enough for tabular reports without pulling in a PDF library.
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 10;
+
+// Courier glyphs are 0.6 em wide
+export const PDF_LINE_CHARS = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6));
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+// PDF string literal in the font's (Latin-1) encoding; anything else becomes '?'
+const pdfString = (text: string) =>
+  `(${text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .slice(0, PDF_LINE_CHARS)
+    .replace(/[\\()]/g, (c) => `\\${c}`)})`;
+
+/** Render `lines` as a PDF, `LINES_PER_PAGE` lines per page, with a page number footer. */
+export function renderTextPdf(lines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // 1 catalog, 2 page tree, 3 font, then a page object and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  const kids = pageIds.map((id) => `${id} 0 R`).join(" ");
+  objects[2] = `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((pageLines, i) => {
+    const footer = `Page ${i + 1} of ${pages.length}`;
+    const content = [
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map((line) => `${pdfString(line)} Tj T*`),
+      "ET",
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${PAGE_WIDTH - MARGIN - footer.length * FONT_SIZE * 0.6} ${MARGIN / 2} Td`,
+      `${pdfString(footer)} Tj`,
+      "ET",
+    ].join("\n");
+
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] =
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, "latin1");
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) body += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
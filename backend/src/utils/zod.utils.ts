@@ -0,0 +1,13 @@
+// utils/zod.utils.ts
+
+/** Flatten zod issues into `{ "path.to.field": [messages] }` for API error responses. */
+export function zodIssuesToMap(issues: any[]) {
+  const map: Record<string, string[]> = {};
+  for (const issue of issues) {
+    const path =
+      Array.isArray(issue.path) && issue.path.length > 0 ? issue.path.join(".") : issue.path || "root";
+    if (!map[path]) map[path] = [];
+    map[path].push(issue.message);
+  }
+  return map;
+}
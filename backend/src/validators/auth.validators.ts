@@ -0,0 +1,11 @@
+// validators/auth.validators.ts
+import { z } from 'zod';
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
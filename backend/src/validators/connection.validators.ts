@@ -0,0 +1,93 @@
+// validators/connection.validators.ts
+import { knownGroupSchema } from "@/validators/group.validators";
+import { z } from "zod";
+
+const optionalInt = z.number().int().min(0).nullable().default(null);
+
+export const guacamoleConnectionSchema = z.object({
+  connection_name: z.string().trim().min(1).max(128),
+  parent_id: z.number().int().positive().nullable().default(null), // null = ROOT connection group
+  protocol: z.string().trim().min(1).max(32), // e.g. rdp, vnc, ssh
+  proxy_hostname: z.string().trim().max(512).nullable().default(null),
+  proxy_port: z.number().int().min(1).max(65535).nullable().default(null),
+  proxy_encryption_method: z.enum(["NONE", "SSL"]).nullable().default(null),
+  max_connections: optionalInt,
+  max_connections_per_user: optionalInt,
+  connection_weight: optionalInt,
+  failover_only: z.boolean().default(false),
+  // guacamole_connection_parameter key/values (hostname, port, username, ...)
+  parameters: z.record(z.string().trim().min(1).max(128), z.string().max(4096)).optional(),
+});
+
+// Query of GET /guacamole-connections; parent_id=root lists connections at the top level
+export const connectionFiltersSchema = z.object({
+  parent_id: z
+    .union([z.literal("root").transform(() => null), z.coerce.number().int().positive()])
+    .optional(),
+  protocol: z.string().trim().min(1).optional(),
+});
+
+const CONNECTION_NAME_MAX = 128;
+
+// The longest name `pattern` can produce: {ip} as the widest IPv4 address, {group} as `group`
+const longestConnectionName = (pattern: string, group = "{group}") =>
+  pattern.replaceAll("{ip}", "255.255.255.255").replaceAll("{group}", group);
+
+const nameTooLongMessage =
+  `Connection names built from this pattern would exceed ${CONNECTION_NAME_MAX} characters.`;
+
+/** Add an issue when `pattern` would name a connection of `group` longer than a connection name may be. */
+export function checkConnectionNameLength(
+  ctx: z.RefinementCtx,
+  pattern: string,
+  group: string,
+  path: PropertyKey[]
+): void {
+  if (longestConnectionName(pattern, group).length > CONNECTION_NAME_MAX) {
+    ctx.addIssue({ code: "custom", message: nameTooLongMessage, path });
+  }
+}
+
+// One connection per IP; hostname is always the IP, so it is not taken from `parameters`.
+// Name length is checked on the names the pattern produces; patterns using {group} are
+// checked again against the actual group (see checkConnectionNameLength).
+export const connectionTemplateSchema = z.object({
+  protocol: z.string().trim().min(1).max(32),
+  parent_id: z.number().int().positive().nullable().default(null),
+  name_pattern: z
+    .string()
+    .trim()
+    .refine((p) => p.includes("{ip}"), { message: "Pattern must contain {ip} so names are unique." })
+    .refine((p) => longestConnectionName(p).length <= CONNECTION_NAME_MAX, { message: nameTooLongMessage })
+    .default("sm-{ip}"),
+  parameters: z.record(z.string().trim().min(1).max(128), z.string().max(4096)).default({}),
+  max_connections: z.number().int().min(0).nullable().optional(),
+  max_connections_per_user: z.number().int().min(0).nullable().optional(),
+});
+
+// POST /guacamole-connections/provision; without ips, every IP of the group lacking a connection
+export const provisionConnectionsSchema = z
+  .object({
+    group: knownGroupSchema,
+    ips: z.array(z.ipv4()).min(1).optional(),
+    template: connectionTemplateSchema,
+  })
+  .superRefine((val, ctx) =>
+    checkConnectionNameLength(ctx, val.template.name_pattern, val.group, ["template", "name_pattern"])
+  );
+
+export const guacamoleConnectionGroupSchema = z.object({
+  connection_group_name: z.string().trim().min(1).max(128),
+  parent_id: z.number().int().positive().nullable().default(null), // null = ROOT connection group
+  type: z.enum(["ORGANIZATIONAL", "BALANCING"]).default("ORGANIZATIONAL"),
+  max_connections: optionalInt,
+  max_connections_per_user: optionalInt,
+  enable_session_affinity: z.boolean().default(false), // only meaningful for BALANCING groups
+});
+
+// Query of DELETE /guacamole-connection-groups/:id; force=true also deletes everything inside
+export const deleteConnectionGroupSchema = z.object({
+  force: z.enum(["true", "false"]).optional(),
+});
+
+export type ConnectionIncomingData = z.infer<typeof guacamoleConnectionSchema>;
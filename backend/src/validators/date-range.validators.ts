@@ -0,0 +1,17 @@
+// validators/date-range.validators.ts
+import { z } from "zod";
+
+// `from`/`to` query fields of the history and report endpoints
+export const dateRangeShape = {
+  // ISO date or date-time; a bare `to` date covers that whole day
+  from: z.union([z.iso.datetime({ offset: true }), z.iso.date()]).transform((d) => new Date(d)).optional(),
+  to: z
+    .union([
+      z.iso.datetime({ offset: true }).transform((d) => new Date(d)),
+      z.iso.date().transform((d) => new Date(`${d}T23:59:59.999Z`)),
+    ])
+    .optional(),
+};
+
+export const fromNotAfterTo = (q: { from?: Date; to?: Date }) => !q.from || !q.to || q.from <= q.to;
+export const dateRangeMessage = { message: "from must not be after to.", path: ["to"] };
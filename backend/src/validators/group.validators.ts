@@ -0,0 +1,55 @@
+// validators/group.validators.ts
+import { groupExists } from "@/services/group.service";
+import { z } from "zod";
+
+// A group that exists right now. Checked at request time (use safeParseAsync), so groups
+// created after startup are accepted without a restart.
+export const knownGroupSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(128)
+  .refine(groupExists, { message: "Unknown group." });
+
+// PATCH /guacamole-groups/:name
+export const updateGroupSchema = z
+  .object({
+    name: z.string().trim().min(1).max(128).optional(),
+    disabled: z.boolean().optional(),
+  })
+  .refine((g) => g.name !== undefined || g.disabled !== undefined, {
+    message: "Give a new name and/or disabled.",
+  });
+
+// POST /guacamole-groups/:name/members
+export const groupMemberSchema = z.object({
+  type: z.enum(["user", "group"]),
+  name: z.string().trim().min(1).max(128),
+});
+
+// Query of DELETE /guacamole-groups/:name; without confirm=true the impact report is returned instead
+export const deleteGroupSchema = z.object({
+  confirm: z.enum(["true", "false"]).optional(),
+  reassignTo: z.string().trim().min(1).max(128).optional(),
+});
+
+// Attributes the UI edits as a form; any other attribute name is stored as given
+const wellKnownAttributes = {
+  "default-gateway": z.ipv4(),
+  description: z.string().max(1024),
+  "owning-team": z.string().max(128),
+  "max-ip-count": z.string().regex(/^\d+$/, { message: "Must be a whole number." }),
+} as const;
+
+// PATCH /guacamole-groups/:name/attributes; null removes an attribute
+export const groupAttributesSchema = z
+  .record(z.string().trim().min(1).max(128), z.string().max(4096).nullable())
+  .superRefine((attrs, ctx) => {
+    for (const [name, schema] of Object.entries(wellKnownAttributes)) {
+      const value = attrs[name];
+      if (value === undefined || value === null) continue;
+      for (const issue of schema.safeParse(value).error?.issues ?? []) {
+        ctx.addIssue({ code: "custom", message: issue.message, path: [name] });
+      }
+    }
+  });
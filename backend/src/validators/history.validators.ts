@@ -0,0 +1,33 @@
+// validators/history.validators.ts
+import { dateRangeMessage, dateRangeShape, fromNotAfterTo } from "@/validators/date-range.validators";
+import { z } from "zod";
+
+// Query fields shared by GET /guacamole-history/sessions and /logins
+const historyQueryShape = {
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  username: z.string().trim().min(1).max(128).optional(),
+  remote_host: z.string().trim().min(1).max(256).optional(),
+  ...dateRangeShape,
+  active: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+};
+
+export const sessionHistorySchema = z
+  .object({
+    ...historyQueryShape,
+    sortBy: z.enum(["start_date", "end_date", "username", "connection_name"]).default("start_date"),
+    connection_id: z.coerce.number().int().positive().optional(),
+    ip: z.ipv4().optional(),
+  })
+  .refine(fromNotAfterTo, dateRangeMessage);
+
+export const loginHistorySchema = z
+  .object({
+    ...historyQueryShape,
+    sortBy: z.enum(["start_date", "end_date", "username"]).default("start_date"),
+  })
+  .refine(fromNotAfterTo, dateRangeMessage);
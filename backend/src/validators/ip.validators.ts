@@ -1,15 +1,17 @@
 // validators/ip.validators.ts
-import { listGroups } from "@/services/group.service";
+import { isValidCidr } from "@/utils/ip.utils";
+import { knownGroupSchema } from "@/validators/group.validators";
+import { checkConnectionNameLength, connectionTemplateSchema } from "@/validators/connection.validators";
 import { z } from "zod";
-const groupsAllowed = await listGroups().then((gs) => gs.map((g) => g.name));
 
 const singleIPSchema = z.object({
   old_ip: z.ipv4(),
   new_ip: z.ipv4(),
-  old_group: z.enum(groupsAllowed),
-  new_group: z.enum(groupsAllowed),
+  old_group: knownGroupSchema,
+  new_group: knownGroupSchema,
   old_gateway: z.ipv4().optional().or(z.literal("")),
   new_gateway: z.ipv4().optional().or(z.literal("")),
+  etag: z.string().min(1), // as listed by GET; a stale etag is answered with 409
 });
 export const updateGuacamoleUserAvailableIPSchema = z.array(singleIPSchema);
 export type UpdateIncomingData = z.infer<typeof updateGuacamoleUserAvailableIPSchema>;
@@ -17,8 +19,8 @@ export type UpdateIncomingData = z.infer<typeof updateGuacamoleUserAvailableIPSc
 // Update: allocation has gateway required now
 const allocationSchema = z.object({
   amount: z.number().int().min(0),
-  group: z.enum(groupsAllowed),
-  firstIp: z.ipv4().optional(), // still allowed when ips provided
+  group: knownGroupSchema,
+  firstIp: z.ipv4().optional(), // defaults to the first free address of the pool
   gateway: z.ipv4(), // <- required IPv4 gateway per allocation
 });
 
@@ -27,9 +29,10 @@ export const createGuacamoleUserAvailableIPSchema = z
     count: z.number().int().min(1),
     allocations: z.array(allocationSchema).min(1),
     ips: z.array(z.ipv4()).optional(),
+    connectionTemplate: connectionTemplateSchema.optional(), // also create a connection per new IP
   })
   .superRefine((val, ctx) => {
-    const { count, allocations, ips } = val;
+    const { count, allocations, ips, connectionTemplate } = val;
     const sum = (allocations ?? []).reduce((s, a) => s + (Number(a.amount) || 0), 0);
     if (sum !== count) {
       ctx.addIssue({
@@ -52,16 +55,51 @@ export const createGuacamoleUserAvailableIPSchema = z
           message: "ips array must not contain duplicate addresses.",
         });
       }
-      return; // ips provided => OK
     }
 
-    // No ips provided: require per-allocation firstIp (and gateway is required by schema already)
-    if ((allocations ?? []).some((a) => !a.firstIp)) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        message: "Provide ips or per-allocation firstIp for all allocations.",
-      });
+    if (connectionTemplate) {
+      for (const group of new Set(allocations.map((a) => a.group))) {
+        checkConnectionNameLength(ctx, connectionTemplate.name_pattern, group, [
+          "connectionTemplate",
+          "name_pattern",
+        ]);
+      }
     }
   });
 
 export type CreateIncomingData = z.infer<typeof createGuacamoleUserAvailableIPSchema>;
+
+// Query of DELETE /guacamole-ip; at least one filter is required so nothing deletes everything
+export const deleteGuacamoleIPsSchema = z
+  .object({
+    group: knownGroupSchema.optional(),
+    gateway: z.ipv4().optional(),
+    cidr: z
+      .string()
+      .refine(isValidCidr, { message: "Enter a valid IPv4 CIDR (e.g. 10.0.0.0/24)." })
+      .optional(),
+    force: z.enum(["true", "false"]).optional(),
+  })
+  .refine((q) => q.group || q.gateway || q.cidr, {
+    message: "Give at least one of group, gateway or cidr.",
+  });
+
+export const deleteGuacamoleIPSchema = z.object({
+  ip: z.ipv4(),
+  force: z.enum(["true", "false"]).optional(),
+});
+
+// Query of GET /guacamole-ip
+export const listGuacamoleIPsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  sortBy: z.enum(["ip", "group", "gateway", "lease"]).default("ip"),
+  sortOrder: z.enum(["asc", "desc"]).default("asc"),
+  group: z.string().trim().min(1).optional(),
+  gateway: z.ipv4().optional(),
+  leased: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+  search: z.string().trim().min(1).max(128).optional(),
+});
@@ -0,0 +1,20 @@
+// validators/lease.validators.ts
+import { z } from "zod";
+
+export const leaseIPSchema = z.object({
+  group: z.string().trim().min(1),
+  username: z.string().trim().min(1).max(128),
+  container_name: z.string().trim().max(128).optional(),
+});
+
+export const leaseFiltersSchema = z.object({
+  group: z.string().trim().min(1).optional(),
+  username: z.string().trim().min(1).optional(),
+});
+
+// Manual reclaim run; idleMinutes defaults to LEASE_RECLAIM_IDLE_MINUTES
+export const reclaimLeasesSchema = z.object({
+  idleMinutes: z.number().int().min(0).optional(),
+});
+
+export type LeaseIncomingData = z.infer<typeof leaseIPSchema>;
@@ -0,0 +1,20 @@
+// validators/pool.validators.ts
+import { isValidCidr } from "@/utils/ip.utils";
+import { knownGroupSchema } from "@/validators/group.validators";
+import { z } from "zod";
+
+const reservedRangeSchema = z.object({
+  start_ip: z.ipv4(),
+  end_ip: z.ipv4(),
+  description: z.string().max(256).optional(),
+});
+
+export const guacamolePoolSchema = z.object({
+  pool_name: z.string().trim().min(1).max(128),
+  cidr: z.string().refine(isValidCidr, { message: "Enter a valid IPv4 CIDR (e.g. 10.0.0.0/24)." }),
+  gateway: z.ipv4(),
+  group_name: knownGroupSchema,
+  reserved_ranges: z.array(reservedRangeSchema).optional(),
+});
+
+export type PoolIncomingData = z.infer<typeof guacamolePoolSchema>;
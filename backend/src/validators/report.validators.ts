@@ -0,0 +1,19 @@
+// validators/report.validators.ts
+import { dateRangeMessage, dateRangeShape, fromNotAfterTo } from "@/validators/date-range.validators";
+import { z } from "zod";
+
+const DAY_MILLIS = 24 * 3600 * 1000;
+
+export const reportTypeSchema = z.enum(["pool-utilisation", "ip-sessions", "user-sessions"]);
+
+// Query of GET /guacamole-reports/:type; the period defaults to the last 30 days
+export const reportQuerySchema = z
+  .object({
+    format: z.enum(["json", "csv", "pdf"]).default("json"),
+    ...dateRangeShape,
+  })
+  .transform(({ format, from, to }) => {
+    const end = to ?? new Date();
+    return { format, from: from ?? new Date(end.getTime() - 30 * DAY_MILLIS), to: end };
+  })
+  .refine(fromNotAfterTo, dateRangeMessage);
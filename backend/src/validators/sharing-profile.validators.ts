@@ -0,0 +1,33 @@
+// validators/sharing-profile.validators.ts
+import { knownGroupSchema } from "@/validators/group.validators";
+import { z } from "zod";
+
+// guacamole_sharing_profile_parameter key/values; "read-only" is the one Guacamole reads today
+const parametersSchema = z
+  .record(z.string().trim().min(1).max(128), z.string().max(4096))
+  .refine((p) => p["read-only"] === undefined || ["true", ""].includes(p["read-only"]), {
+    message: 'read-only must be "true" or empty.',
+    path: ["read-only"],
+  });
+
+// PUT /guacamole-sharing-profiles/:id; omitted parameters are kept
+export const sharingProfileSchema = z.object({
+  sharing_profile_name: z.string().trim().min(1).max(128),
+  primary_connection_id: z.number().int().positive(),
+  parameters: parametersSchema.optional(),
+});
+
+// POST /guacamole-sharing-profiles; without parameters the profile is an observer (read-only) one
+export const createSharingProfileSchema = sharingProfileSchema.extend({
+  parameters: parametersSchema.default({ "read-only": "true" }),
+});
+
+// Query of GET /guacamole-sharing-profiles
+export const sharingProfileFiltersSchema = z.object({
+  connection_id: z.coerce.number().int().positive().optional(),
+});
+
+// POST /guacamole-sharing-profiles/:id/grants
+export const sharingProfileGrantSchema = z.object({
+  group: knownGroupSchema,
+});
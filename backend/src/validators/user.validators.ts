@@ -0,0 +1,67 @@
+// validators/user.validators.ts
+import { z } from "zod";
+
+// HH:MM or HH:MM:SS, stored as HH:MM:SS
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, { message: "Use HH:MM or HH:MM:SS." })
+  .transform((t) => (t.length === 5 ? `${t}:00` : t));
+
+// An IANA zone id such as Europe/Berlin, the way Guacamole stores it
+const timezone = z
+  .string()
+  .max(64)
+  .refine(
+    (tz) => {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: tz });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Unknown timezone." }
+  );
+
+const profileText = z.string().trim().max(256).nullable();
+
+// Fields a PATCH may change; null clears a restriction
+const userChangesShape = {
+  disabled: z.boolean(),
+  expired: z.boolean(),
+  access_window_start: timeOfDay.nullable(),
+  access_window_end: timeOfDay.nullable(),
+  valid_from: z.iso.date().nullable(),
+  valid_until: z.iso.date().nullable(),
+  timezone: timezone.nullable(),
+  full_name: profileText,
+  email_address: z.email().max(256).nullable(),
+  organization: profileText,
+  organizational_role: profileText,
+};
+
+const validityOrdered = (u: { valid_from?: string | null; valid_until?: string | null }) =>
+  !u.valid_from || !u.valid_until || u.valid_from <= u.valid_until;
+const validityMessage = { message: "valid_from must not be after valid_until.", path: ["valid_until"] };
+
+// POST /guacamole-users
+export const createUserSchema = z
+  .object(userChangesShape)
+  .partial()
+  .extend({
+    username: z.string().trim().min(1).max(128),
+    password: z.string().min(1).max(1024),
+  })
+  .refine(validityOrdered, validityMessage);
+
+// PATCH /guacamole-users/:username
+export const updateUserSchema = z
+  .object(userChangesShape)
+  .partial()
+  .refine((u) => Object.keys(u).length > 0, { message: "Nothing to update." })
+  .refine(validityOrdered, validityMessage);
+
+// PUT /guacamole-users/:username/password
+export const setPasswordSchema = z.object({
+  password: z.string().min(1).max(1024),
+});
@@ -0,0 +1,12 @@
+"use client";
+
+import ConnectionGroupTree from "@/components/connections/connection-group-tree";
+
+// Organise connections per team and set up balancing groups over the pooled machines
+export default function ConnectionGroupsPage() {
+  return (
+    <main className="max-w-7xl mx-auto p-6">
+      <ConnectionGroupTree />
+    </main>
+  );
+}
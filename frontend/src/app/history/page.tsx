@@ -0,0 +1,11 @@
+"use client";
+
+import SessionHistory from "@/components/history/session-history";
+
+export default function HistoryPage() {
+  return (
+    <main className="max-w-7xl mx-auto p-6">
+      <SessionHistory />
+    </main>
+  );
+}
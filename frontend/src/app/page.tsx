@@ -17,19 +17,19 @@ import { CheckCircleIcon } from "lucide-react";
 // import components and hooks
 import GroupsPanel from "@/components/groups/groups-panel";
 import AddIPsPanel from "@/components/ip/add-ips-panel";
-
-// groupsAllowed kept simple here — server still authoritatively validates
-const groupsAllowed = ["primary", "secondary"] as const;
+import { apiFetch, getCurrentUser, hasPermission } from "@/lib/api";
 
 // NOTE: I added old_gateway/new_gateway so gateway is tracked per-row
 const ipEntrySchema = z.object({
   old_ip: z.string(),
   new_ip: z.string(),
-  old_group: z.enum(groupsAllowed),
-  new_group: z.enum(groupsAllowed),
+  // groups can be created at any time, so only the server checks that a group exists
+  old_group: z.string().min(1),
+  new_group: z.string().min(1),
   old_gateway: z.string().optional(),
   new_gateway: z.string().optional(),
   use_cidr: z.boolean().optional(),
+  etag: z.string(),
 });
 
 const formSchema = z.object({
@@ -38,6 +38,41 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+// One entry of the PUT /guacamole-ip result list
+type UpdateResult = {
+  old_ip: string;
+  new_ip: string;
+  status: "updated" | "unchanged" | "failed";
+  reason?: string;
+  connections?: { connection_id: number; connection_name: string }[];
+};
+
+type ServerRow = { ip: string; group_name: string; gateway?: string; etag: string };
+
+// current server state of a row that changed underneath us (null when it no longer exists)
+type ConflictMap = Record<string, ServerRow | null>;
+
+// GET /guacamole-ip query; empty strings are left out of the request
+type ListQuery = {
+  page: number;
+  limit: number;
+  sortBy: "ip" | "group" | "gateway" | "lease";
+  sortOrder: "asc" | "desc";
+  search: string;
+  group: string;
+  leased: "" | "true" | "false";
+};
+
+const initialQuery: ListQuery = {
+  page: 1,
+  limit: 50,
+  sortBy: "ip",
+  sortOrder: "asc",
+  search: "",
+  group: "",
+  leased: "",
+};
+
 function incrementIp(ip: string, increment: number) {
   const parts = ip.split(".").map(Number);
   let carry = increment;
@@ -50,6 +85,10 @@ function incrementIp(ip: string, increment: number) {
 }
 
 export default function Page() {
+  const [currentUser] = useState(getCurrentUser);
+  const canAdminister = hasPermission(currentUser, "ADMINISTER");
+  const canListGroups = currentUser?.role !== "read-only";
+
   const [groups, setGroups] = useState<{ name: string }[]>([]);
   // map group name -> representative gateway discovered from backend rows
   const [groupGatewayMap, setGroupGatewayMap] = useState<Record<string, string>>({});
@@ -57,7 +96,7 @@ export default function Page() {
   // load groups for AddIPsPanel (keeps single source of truth in page)
   const loadGroups = async () => {
     try {
-      const res = await fetch("http://localhost:3000/api/guacamole-groups", { cache: "no-store" });
+      const res = await apiFetch("/guacamole-groups");
       const jsonData = await res.json();
       if (!jsonData.success) {
         toast.message(jsonData.message, {
@@ -72,45 +111,13 @@ export default function Page() {
   };
 
   useEffect(() => {
-    loadGroups();
+    // read-only users may only list IPs
+    if (canListGroups) loadGroups();
   }, []);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: async () => {
-      try {
-        const res = await fetch("http://localhost:3000/api/guacamole-ip", { cache: "no-store" });
-        const jsonData = await res.json();
-        if (!jsonData.success) {
-          toast.message(jsonData.message, {
-            description: jsonData.error,
-          });
-        }
-
-        // Build entries and group->gateway map from backend rows
-        const map: Record<string, string> = {};
-        const entries = (jsonData.data ?? []).map(
-          (row: { ip: string; group_name: string; gateway?: string }) => {
-            if (row.gateway && !map[row.group_name]) map[row.group_name] = row.gateway;
-            return {
-              old_ip: row.ip,
-              new_ip: row.ip,
-              old_group: row.group_name,
-              new_group: row.group_name,
-              old_gateway: row.gateway ?? "",
-              new_gateway: row.gateway ?? "",
-              use_cidr: false,
-            };
-          }
-        );
-
-        setGroupGatewayMap(map);
-        return { entries };
-      } catch (e) {
-        toast.error(e instanceof Error ? e.message : "Failed to load IPs");
-        return { entries: [] };
-      }
-    },
+    defaultValues: { entries: [] },
     mode: "onBlur",
   });
 
@@ -118,6 +125,27 @@ export default function Page() {
 
   const { fields } = useFieldArray({ name: "entries", control });
 
+  // the history page links sessions here as /?search=<ip>
+  const [query, setQuery] = useState<ListQuery>(() => ({
+    ...initialQuery,
+    search: new URLSearchParams(window.location.search).get("search") ?? "",
+  }));
+  const [meta, setMeta] = useState({ total: 0, totalPages: 0 });
+  const [searchInput, setSearchInput] = useState(query.search);
+
+  useEffect(() => {
+    refreshFromBackend().catch((e) => toast.error(e instanceof Error ? e.message : "Failed to load IPs"));
+  }, [query]);
+
+  // changing page or filters reloads the rows, so unsaved edits would be lost
+  function changeQuery(patch: Partial<ListQuery>) {
+    if (formState.isDirty && !window.confirm("Discard unsaved changes on this page?")) return;
+    setQuery((q) => ({ ...q, page: 1, ...patch }));
+  }
+
+  const [conflicts, setConflicts] = useState<ConflictMap>({});
+  // repoint connections whose hostname is a renumbered IP
+  const [syncHostnames, setSyncHostnames] = useState(true);
   const [confirmIndex, setConfirmIndex] = useState<number | null>(null);
   const [confirmValue, setConfirmValue] = useState<boolean | null>(null);
 
@@ -213,13 +241,18 @@ export default function Page() {
   }
 
   async function refreshFromBackend() {
-    const res = await fetch("http://localhost:3000/api/guacamole-ip", { cache: "no-store" });
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== "") params.set(key, String(value));
+    }
+    const res = await apiFetch(`/guacamole-ip?${params}`);
     if (!res.ok) throw new Error("Failed to reload IPs");
     const jsonData = await res.json();
+    setMeta(jsonData.meta ?? { total: 0, totalPages: 0 });
 
     // rebuild map and entries
     const map: Record<string, string> = {};
-    const entries = (jsonData.data ?? []).map((row: { ip: string; group_name: string; gateway?: string }) => {
+    const entries = (jsonData.data ?? []).map((row: ServerRow) => {
       if (row.gateway && !map[row.group_name]) map[row.group_name] = row.gateway;
       return {
         old_ip: row.ip,
@@ -229,41 +262,80 @@ export default function Page() {
         old_gateway: row.gateway ?? "",
         new_gateway: row.gateway ?? "",
         use_cidr: false,
+        etag: row.etag,
       };
     });
 
     setGroupGatewayMap(map);
+    setConflicts({});
     reset({ entries });
   }
 
   const onSubmit = async (data: FormValues) => {
-    const payload = data.entries.map(
-      ({ old_ip, new_ip, old_group, new_group, old_gateway, new_gateway }) => ({
+    // only send rows that changed; the server reports per-row results
+    const payload = data.entries
+      .filter(
+        (e) =>
+          e.new_ip !== e.old_ip ||
+          e.new_group !== e.old_group ||
+          (e.new_gateway ?? "") !== (e.old_gateway ?? "")
+      )
+      .map(({ old_ip, new_ip, old_group, new_group, old_gateway, new_gateway, etag }) => ({
         old_ip,
         new_ip,
         old_group,
         new_group,
         old_gateway,
         new_gateway,
-      })
-    );
+        etag,
+      }));
+
+    if (payload.length === 0) {
+      toast.message("Nothing to update");
+      return;
+    }
 
     await toast.promise(
       (async () => {
-        const response = await fetch("http://localhost:3000/api/guacamole-ip", {
+        const response = await apiFetch(`/guacamole-ip${syncHostnames ? "" : "?syncHostnames=false"}`, {
           method: "PUT",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(payload),
         });
+        const jsonData = await response.json().catch(() => ({}));
+        if (response.status === 409 && jsonData.data?.conflicts) {
+          // someone else changed these rows; keep the user's edits and mark the rows
+          const map: ConflictMap = {};
+          for (const c of jsonData.data.conflicts) map[c.old_ip] = c.current;
+          setConflicts(map);
+        }
         if (!response.ok) {
-          const err = await response.json().catch(() => ({}));
-          throw new Error(err.message ?? "Update failed");
+          throw new Error(jsonData.error ?? jsonData.message ?? "Update failed");
+        }
+
+        const results: UpdateResult[] = jsonData.data.results;
+        const failed = results.filter((r) => r.status === "failed");
+        if (failed.length > 0) {
+          toast.error(`${failed.length} row(s) could not be updated`, {
+            description: failed.map((r) => `${r.old_ip} → ${r.new_ip}: ${r.reason}`).join("\n"),
+            duration: 10000,
+          });
+        }
+        const touched = results.flatMap((r) =>
+          (r.connections ?? []).map((c) => `${c.connection_name}: ${r.new_ip}`)
+        );
+        if (touched.length > 0) {
+          toast.message(`${touched.length} connection hostname(s) updated`, {
+            description: touched.join("\n"),
+            duration: 10000,
+          });
         }
         await refreshFromBackend();
+        return jsonData.message as string;
       })(),
       {
         loading: "Updating IPs…",
-        success: "IP(s) updated successfully!",
+        success: (message) => message,
         error: (e) => e.message || "Update failed",
       }
     );
@@ -271,8 +343,8 @@ export default function Page() {
 
   return (
     <main className="max-w-7xl mx-auto p-6">
-      <GroupsPanel />
-      <AddIPsPanel groups={groups} refreshFromBackend={refreshFromBackend} />
+      {canListGroups && <GroupsPanel />}
+      {canAdminister && <AddIPsPanel groups={groups} refreshFromBackend={refreshFromBackend} />}
 
       <h1 className="text-3xl font-bold mb-6">Update Secure Machine User IPs and Groups</h1>
 
@@ -287,12 +359,86 @@ export default function Page() {
                 To auto-fill sequential IPs, check “Use CIDR” on the first row of a block and type a base IP;
                 subsequent rows update automatically.
               </li>
-              <li>Click “Update IPs” button to save.</li>
+              <li>Click “Update IPs” button to save. Only changed rows are sent; rows that fail are listed.</li>
             </ul>
           </AlertDescription>
         </Alert>
       </div>
 
+      {Object.keys(conflicts).length > 0 && (
+        <div className="mb-4">
+          <Alert variant="destructive">
+            <AlertTitle>Some rows were changed by someone else</AlertTitle>
+            <AlertDescription>
+              <ul className="list-inside list-disc text-sm">
+                {Object.entries(conflicts).map(([ip, current]) => (
+                  <li key={ip}>
+                    {ip}:{" "}
+                    {current
+                      ? `now ${current.ip} in ${current.group_name} via ${current.gateway || "no gateway"}`
+                      : "no longer exists"}
+                  </li>
+                ))}
+              </ul>
+              <Button variant="outline" size="sm" className="mt-2" onClick={() => refreshFromBackend()}>
+                Reload rows (discards your edits)
+              </Button>
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <Input
+          className="w-64"
+          placeholder="Search IP, group, gateway or user"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") changeQuery({ search: searchInput.trim() });
+          }}
+          onBlur={() => searchInput.trim() !== query.search && changeQuery({ search: searchInput.trim() })}
+        />
+        <select
+          className="rounded border border-gray-300 px-2 py-1"
+          value={query.group}
+          onChange={(e) => changeQuery({ group: e.target.value })}
+        >
+          <option value="">All groups</option>
+          {groups.map((g) => (
+            <option key={g.name} value={g.name}>
+              {g.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className="rounded border border-gray-300 px-2 py-1"
+          value={query.leased}
+          onChange={(e) => changeQuery({ leased: e.target.value as ListQuery["leased"] })}
+        >
+          <option value="">Leased and free</option>
+          <option value="true">Leased only</option>
+          <option value="false">Free only</option>
+        </select>
+        <select
+          className="rounded border border-gray-300 px-2 py-1"
+          value={`${query.sortBy}:${query.sortOrder}`}
+          onChange={(e) => {
+            const [sortBy, sortOrder] = e.target.value.split(":");
+            changeQuery({
+              sortBy: sortBy as ListQuery["sortBy"],
+              sortOrder: sortOrder as ListQuery["sortOrder"],
+            });
+          }}
+        >
+          <option value="ip:asc">IP ascending</option>
+          <option value="ip:desc">IP descending</option>
+          <option value="group:asc">Group</option>
+          <option value="gateway:asc">Gateway</option>
+          <option value="lease:desc">Leased first</option>
+        </select>
+      </div>
+
       <Form {...form}>
         <form
           onSubmit={handleSubmit(onSubmit, () => {
@@ -317,7 +463,10 @@ export default function Page() {
               </thead>
               <tbody>
                 {fields.map((field, index) => (
-                  <tr key={field.id} className="odd:bg-white even:bg-gray-50">
+                  <tr
+                    key={field.id}
+                    className={field.old_ip in conflicts ? "bg-red-50" : "odd:bg-white even:bg-gray-50"}
+                  >
                     <td className="p-2 border border-gray-300 text-center">{index + 1}</td>
 
                     <td className="p-2 border border-gray-300">
@@ -379,7 +528,7 @@ export default function Page() {
                                   onNewGroupChange(index, e.target.value);
                                 }}
                               >
-                                {groups.map((g) => (
+                                {(groups.length > 0 ? groups : [{ name: field.value }]).map((g) => (
                                   <option key={g.name} value={g.name}>
                                     {g.name}
                                   </option>
@@ -450,11 +599,58 @@ export default function Page() {
             </table>
           </div>
 
+          <div className="flex items-center justify-end gap-3 text-sm">
+            <span className="text-muted-foreground">
+              {meta.total} row(s) · page {query.page} of {Math.max(meta.totalPages, 1)}
+            </span>
+            <select
+              className="rounded border border-gray-300 px-2 py-1"
+              value={query.limit}
+              onChange={(e) => changeQuery({ limit: Number(e.target.value) })}
+            >
+              {[25, 50, 100, 250].map((n) => (
+                <option key={n} value={n}>
+                  {n} per page
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={query.page <= 1}
+              onClick={() => changeQuery({ page: query.page - 1 })}
+            >
+              Previous
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={query.page >= meta.totalPages}
+              onClick={() => changeQuery({ page: query.page + 1 })}
+            >
+              Next
+            </Button>
+          </div>
+
           <div className="flex justify-end gap-4">
+            <label className="flex items-center gap-2 text-sm self-center">
+              <Checkbox
+                checked={syncHostnames}
+                onCheckedChange={(checked) => setSyncHostnames(checked === true)}
+              />
+              Update connection hostnames
+            </label>
+            {!canAdminister && (
+              <span className="text-sm text-muted-foreground self-center">
+                Read-only access: changes require the ADMINISTER permission.
+              </span>
+            )}
             <Button variant="outline" type="button" onClick={() => reset()}>
               Reset
             </Button>
-            <Button type="submit" disabled={formState.isSubmitting}>
+            <Button type="submit" disabled={formState.isSubmitting || !canAdminister}>
               {formState.isSubmitting ? "Updating…" : "Update IPs"}
             </Button>
           </div>
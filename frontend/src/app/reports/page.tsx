@@ -0,0 +1,11 @@
+"use client";
+
+import UsageReports from "@/components/reports/usage-reports";
+
+export default function ReportsPage() {
+  return (
+    <main className="max-w-7xl mx-auto p-6">
+      <UsageReports />
+    </main>
+  );
+}
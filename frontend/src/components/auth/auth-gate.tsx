@@ -0,0 +1,115 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import Link from "next/link";
+import { type ReactNode, useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { getAccessToken, getCurrentUser, LOGOUT_EVENT, login, logout } from "@/lib/api";
+
+const LoginSchema = z.object({
+  username: z.string().trim().min(1, { message: "Username is required." }),
+  password: z.string().min(1, { message: "Password is required." }),
+});
+
+type LoginValues = z.infer<typeof LoginSchema>;
+
+function LoginForm({ onLoggedIn }: { onLoggedIn: () => void }) {
+  const form = useForm<LoginValues>({
+    resolver: zodResolver(LoginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  async function onSubmit(values: LoginValues) {
+    try {
+      await login(values.username, values.password);
+      onLoggedIn();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Login failed");
+    }
+  }
+
+  return (
+    <Card className="p-6 max-w-sm mx-auto mt-24 space-y-4">
+      <h1 className="text-2xl font-bold">Sign in</h1>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Guacamole username</FormLabel>
+                <FormControl>
+                  <Input autoComplete="username" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Password</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="current-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Signing in…" : "Sign in"}
+          </Button>
+        </form>
+      </Form>
+    </Card>
+  );
+}
+
+/** Renders the login form until an access token is present, then the wrapped page. */
+export default function AuthGate({ children }: { children: ReactNode }) {
+  // null until mounted: tokens live in localStorage, which the server render cannot see
+  const [authed, setAuthed] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setAuthed(Boolean(getAccessToken()));
+    const onLogout = () => setAuthed(false);
+    window.addEventListener(LOGOUT_EVENT, onLogout);
+    return () => window.removeEventListener(LOGOUT_EVENT, onLogout);
+  }, []);
+
+  if (authed === null) return null;
+  if (!authed) return <LoginForm onLoggedIn={() => setAuthed(true)} />;
+
+  const currentRole = getCurrentUser()?.role;
+
+  return (
+    <>
+      <div className="max-w-7xl mx-auto px-6 pt-4 flex items-center gap-4">
+        <nav className="flex gap-4 text-sm font-medium">
+          <Link href="/">IPs & Groups</Link>
+          {currentRole !== "read-only" && (
+            <>
+              <Link href="/connection-groups">Connection groups</Link>
+              <Link href="/history">History</Link>
+              <Link href="/reports">Reports</Link>
+            </>
+          )}
+        </nav>
+        <Button className="ml-auto" variant="outline" size="sm" onClick={logout}>
+          Sign out
+        </Button>
+      </div>
+      {children}
+    </>
+  );
+}
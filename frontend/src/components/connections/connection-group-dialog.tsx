@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect } from 'react';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiFetch } from '@/lib/api';
+import type { ConnectionGroup } from '@/components/connections/connection-group-tree';
+
+const limit = z.string().regex(/^\d*$/, { message: 'Must be a whole number' });
+
+const GroupSchema = z.object({
+  connection_group_name: z.string().trim().min(1, { message: 'Name is required' }).max(128),
+  parent_id: z.string(), // 'root' or a connection group id
+  type: z.enum(['ORGANIZATIONAL', 'BALANCING']),
+  max_connections: limit,
+  max_connections_per_user: limit,
+  enable_session_affinity: z.boolean(),
+});
+
+type GroupForm = z.infer<typeof GroupSchema>;
+
+// `group` set = edit (and move) that group; otherwise create one under `parentId`
+export type GroupDialogTarget = { group?: ConnectionGroup; parentId: number | null };
+
+type Props = {
+  target: GroupDialogTarget | null;
+  // every group with its path, for the parent select
+  parents: { id: number; path: string }[];
+  // ids that cannot become the parent (the edited group and its descendants)
+  excluded: Set<number>;
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+const toLimit = (value: number | null) => (value === null ? '' : String(value));
+const fromLimit = (value: string) => (value === '' ? null : Number(value));
+
+export default function ConnectionGroupDialog({ target, parents, excluded, onClose, onSaved }: Props) {
+  const form = useForm<GroupForm>({ resolver: zodResolver(GroupSchema) });
+  const group = target?.group;
+
+  useEffect(() => {
+    if (!target) return;
+    form.reset({
+      connection_group_name: group?.connection_group_name ?? '',
+      parent_id: target.parentId === null ? 'root' : String(target.parentId),
+      type: group?.type ?? 'ORGANIZATIONAL',
+      max_connections: toLimit(group?.max_connections ?? null),
+      max_connections_per_user: toLimit(group?.max_connections_per_user ?? null),
+      enable_session_affinity: group?.enable_session_affinity ?? false,
+    });
+  }, [target]);
+
+  async function onSave(values: GroupForm) {
+    const body = {
+      ...values,
+      parent_id: values.parent_id === 'root' ? null : Number(values.parent_id),
+      max_connections: fromLimit(values.max_connections),
+      max_connections_per_user: fromLimit(values.max_connections_per_user),
+    };
+    const res = await apiFetch(
+      group ? `/guacamole-connection-groups/${group.connection_group_id}` : '/guacamole-connection-groups',
+      {
+        method: group ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }
+    );
+    const jsonData = await res.json();
+    if (!jsonData.success) {
+      toast.message(jsonData.message, {
+        description: jsonData.error,
+      });
+      return;
+    }
+    toast.success(jsonData.message);
+    onSaved();
+    onClose();
+  }
+
+  const numberField = (name: 'max_connections' | 'max_connections_per_user', label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder="unlimited" {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={Boolean(target)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{group ? `Edit ${group.connection_group_name}` : 'New connection group'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-3">
+            <FormField
+              control={form.control}
+              name="connection_group_name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="team-a" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="parent_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Parent</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="root">ROOT</SelectItem>
+                      {parents
+                        .filter((p) => !excluded.has(p.id))
+                        .map((p) => (
+                          <SelectItem key={p.id} value={String(p.id)}>
+                            {p.path}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="ORGANIZATIONAL">Organizational</SelectItem>
+                      <SelectItem value="BALANCING">Balancing</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              {numberField('max_connections', 'Max connections')}
+              {numberField('max_connections_per_user', 'Max connections per user')}
+            </div>
+
+            {form.watch('type') === 'BALANCING' && (
+              <FormField
+                control={form.control}
+                name="enable_session_affinity"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel>Session affinity (reconnect users to the same machine)</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {group ? 'Save' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
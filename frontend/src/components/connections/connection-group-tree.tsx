@@ -0,0 +1,262 @@
+'use client';
+
+import { type ReactNode, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronDownIcon, ChevronRightIcon } from 'lucide-react';
+
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import ConnectionGroupDialog, {
+  type GroupDialogTarget,
+} from '@/components/connections/connection-group-dialog';
+import { apiFetch, getCurrentUser, hasPermission } from '@/lib/api';
+
+export type ConnectionGroup = {
+  connection_group_id: number;
+  connection_group_name: string;
+  parent_id: number | null;
+  type: 'ORGANIZATIONAL' | 'BALANCING';
+  max_connections: number | null;
+  max_connections_per_user: number | null;
+  enable_session_affinity: boolean;
+};
+
+type ConnectionLeaf = { connection_id: number; connection_name: string; protocol: string };
+
+type GroupNode = ConnectionGroup & { groups: GroupNode[]; connections: ConnectionLeaf[] };
+
+// GET /guacamole-connection-groups; the top level is Guacamole's implicit ROOT group
+type Tree = { groups: GroupNode[]; connections: ConnectionLeaf[] };
+
+// 409 body of DELETE /guacamole-connection-groups/:id
+type DeleteBlock = { groups: number; connections: number };
+
+function flatten(nodes: GroupNode[], prefix = ''): { id: number; path: string; node: GroupNode }[] {
+  return nodes.flatMap((node) => {
+    const path = `${prefix}${node.connection_group_name}`;
+    return [{ id: node.connection_group_id, path, node }, ...flatten(node.groups, `${path} / `)];
+  });
+}
+
+const subtreeIds = (node: GroupNode): number[] => [
+  node.connection_group_id,
+  ...node.groups.flatMap(subtreeIds),
+];
+
+export default function ConnectionGroupTree() {
+  const [tree, setTree] = useState<Tree>({ groups: [], connections: [] });
+  const [loading, setLoading] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [dialog, setDialog] = useState<GroupDialogTarget | null>(null);
+
+  // delete confirmation; `blocked` is set once the server reports the group is not empty
+  const [toDelete, setToDelete] = useState<GroupNode | null>(null);
+  const [blocked, setBlocked] = useState<DeleteBlock | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const [currentUser] = useState(getCurrentUser);
+  const canCreate = hasPermission(currentUser, 'CREATE_CONNECTION_GROUP');
+
+  const flat = useMemo(() => flatten(tree.groups), [tree]);
+  // a group cannot be moved below itself
+  const excluded = useMemo(
+    () => new Set(dialog?.group ? subtreeIds(dialog.group as GroupNode) : []),
+    [dialog]
+  );
+
+  const loadTree = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch('/guacamole-connection-groups');
+      const jsonData = await res.json();
+      if (!jsonData.success) {
+        toast.message(jsonData.message, {
+          description: jsonData.error,
+        });
+        return;
+      }
+      setTree(jsonData.data);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to load connection groups');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTree();
+  }, []);
+
+  const toggle = (id: number) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const closeDelete = () => {
+    setToDelete(null);
+    setBlocked(null);
+  };
+
+  const confirmDelete = async () => {
+    if (!toDelete) return;
+    setIsDeleting(true);
+    try {
+      const res = await apiFetch(
+        `/guacamole-connection-groups/${toDelete.connection_group_id}${blocked ? '?force=true' : ''}`,
+        { method: 'DELETE' }
+      );
+      const jsonData = await res.json();
+      if (res.status === 409 && jsonData.data) {
+        setBlocked(jsonData.data);
+        return;
+      }
+      if (!jsonData.success) {
+        toast.message(jsonData.message, {
+          description: jsonData.error,
+        });
+        return;
+      }
+      toast.success(`Deleted ${toDelete.connection_group_name}`);
+      closeDelete();
+      await loadTree();
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const renderConnections = (connections: ConnectionLeaf[], depth: number) =>
+    connections.map((c) => (
+      <li
+        key={`c-${c.connection_id}`}
+        className="flex items-center gap-2 py-1 text-sm"
+        style={{ paddingLeft: `${depth * 1.5 + 1.5}rem` }}
+      >
+        <span>{c.connection_name}</span>
+        <span className="text-xs text-muted-foreground uppercase">{c.protocol}</span>
+      </li>
+    ));
+
+  const renderGroups = (nodes: GroupNode[], depth: number): ReactNode =>
+    nodes.map((node) => {
+      const open = !collapsed.has(node.connection_group_id);
+      const limits = [
+        node.max_connections !== null && `max ${node.max_connections}`,
+        node.max_connections_per_user !== null && `${node.max_connections_per_user}/user`,
+        node.type === 'BALANCING' && node.enable_session_affinity && 'session affinity',
+      ].filter(Boolean);
+
+      return (
+        <li key={node.connection_group_id}>
+          <div className="flex items-center gap-2 py-1" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+            <button
+              type="button"
+              className="text-muted-foreground"
+              onClick={() => toggle(node.connection_group_id)}
+              aria-label={open ? 'Collapse' : 'Expand'}
+            >
+              {open ? <ChevronDownIcon className="size-4" /> : <ChevronRightIcon className="size-4" />}
+            </button>
+            <span className="font-medium">{node.connection_group_name}</span>
+            <span
+              className={`text-xs rounded px-1.5 ${
+                node.type === 'BALANCING' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {node.type === 'BALANCING' ? 'Balancing' : 'Organizational'}
+            </span>
+            {limits.length > 0 && <span className="text-xs text-muted-foreground">{limits.join(', ')}</span>}
+
+            <div className="ml-auto flex gap-2">
+              {canCreate && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDialog({ parentId: node.connection_group_id })}
+                >
+                  Add subgroup
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDialog({ group: node, parentId: node.parent_id })}
+              >
+                Edit
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => setToDelete(node)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+
+          {open && (
+            <ul>
+              {renderGroups(node.groups, depth + 1)}
+              {renderConnections(node.connections, depth)}
+            </ul>
+          )}
+        </li>
+      );
+    });
+
+  return (
+    <Card className="p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold">Connection Groups</h2>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadTree} disabled={loading}>
+            {loading ? 'Loading…' : 'Refresh'}
+          </Button>
+          {canCreate && <Button onClick={() => setDialog({ parentId: null })}>New group</Button>}
+        </div>
+      </div>
+
+      {tree.groups.length === 0 && tree.connections.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {loading ? 'Loading…' : 'No connection groups yet.'}
+        </p>
+      ) : (
+        <ul>
+          {renderGroups(tree.groups, 0)}
+          {renderConnections(tree.connections, -1)}
+        </ul>
+      )}
+
+      <ConnectionGroupDialog
+        target={dialog}
+        parents={flat}
+        excluded={excluded}
+        onClose={() => setDialog(null)}
+        onSaved={loadTree}
+      />
+
+      <Dialog open={Boolean(toDelete)} onOpenChange={(open) => !open && closeDelete()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {toDelete?.connection_group_name}?</DialogTitle>
+          </DialogHeader>
+          {blocked ? (
+            <p className="text-sm">
+              This group still contains {blocked.groups} group(s) and {blocked.connections} connection(s).
+              Deleting it removes all of them.
+            </p>
+          ) : (
+            <p className="text-sm">The connection group will be removed.</p>
+          )}
+          <DialogFooter className="flex justify-end gap-3">
+            <Button variant="outline" onClick={closeDelete} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmDelete} disabled={isDeleting}>
+              {isDeleting ? 'Deleting…' : blocked ? 'Delete everything' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
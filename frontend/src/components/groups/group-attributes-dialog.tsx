@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiFetch } from '@/lib/api';
+
+// The attributes edited here; anything else stored on the group is listed read-only
+const fields = [
+  { name: 'default-gateway', label: 'Default gateway', placeholder: '10.0.0.1' },
+  { name: 'description', label: 'Description', placeholder: '' },
+  { name: 'owning-team', label: 'Owning team', placeholder: '' },
+  { name: 'max-ip-count', label: 'Max IP count', placeholder: '' },
+] as const;
+
+const AttributesSchema = z.object({
+  'default-gateway': z.union([z.ipv4({ message: 'Enter a valid IPv4 address' }), z.literal('')]),
+  description: z.string().max(1024),
+  'owning-team': z.string().max(128),
+  'max-ip-count': z.string().regex(/^\d*$/, { message: 'Must be a whole number' }),
+});
+
+type AttributesForm = z.infer<typeof AttributesSchema>;
+
+const emptyForm: AttributesForm = {
+  'default-gateway': '',
+  description: '',
+  'owning-team': '',
+  'max-ip-count': '',
+};
+
+type Props = {
+  group: string | null;
+  onClose: () => void;
+};
+
+export default function GroupAttributesDialog({ group, onClose }: Props) {
+  const [others, setOthers] = useState<Record<string, string>>({});
+
+  const form = useForm<AttributesForm>({
+    resolver: zodResolver(AttributesSchema),
+    defaultValues: emptyForm,
+  });
+
+  const applyAttributes = (attributes: Record<string, string>) => {
+    const values = { ...emptyForm };
+    const rest: Record<string, string> = {};
+    for (const [name, value] of Object.entries(attributes)) {
+      if (name in values) values[name as keyof AttributesForm] = value;
+      else rest[name] = value;
+    }
+    form.reset(values);
+    setOthers(rest);
+  };
+
+  useEffect(() => {
+    applyAttributes({});
+    if (!group) return;
+    (async () => {
+      const res = await apiFetch(`/guacamole-groups/${encodeURIComponent(group)}/attributes`);
+      const jsonData = await res.json();
+      if (!jsonData.success) {
+        toast.message(jsonData.message, {
+          description: jsonData.error,
+        });
+      } else {
+        applyAttributes(jsonData.data);
+      }
+    })();
+  }, [group]);
+
+  async function onSave(values: AttributesForm) {
+    if (!group) return;
+    // only send what changed; a cleared field removes the attribute
+    const changes: Record<string, string | null> = {};
+    for (const { name } of fields) {
+      if (form.formState.dirtyFields[name]) changes[name] = values[name].trim() || null;
+    }
+
+    const res = await apiFetch(`/guacamole-groups/${encodeURIComponent(group)}/attributes`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    const jsonData = await res.json();
+    if (!jsonData.success) {
+      toast.message(jsonData.message, {
+        description: jsonData.error,
+      });
+      return;
+    }
+    toast.success('Attributes saved');
+    applyAttributes(jsonData.data);
+  }
+
+  return (
+    <Dialog open={Boolean(group)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Attributes of {group}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-3">
+            {fields.map((f) => (
+              <FormField
+                key={f.name}
+                control={form.control}
+                name={f.name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{f.label}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={f.placeholder} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            {Object.keys(others).length > 0 && (
+              <div className="text-sm text-muted-foreground">
+                <p className="font-medium">Other attributes</p>
+                <ul className="list-disc list-inside">
+                  {Object.entries(others).map(([name, value]) => (
+                    <li key={name}>
+                      {name}: {value}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <DialogFooter className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button type="submit" disabled={!form.formState.isDirty || form.formState.isSubmitting}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
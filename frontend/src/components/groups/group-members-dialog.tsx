@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiFetch } from '@/lib/api';
+
+type MemberType = 'user' | 'group';
+type Members = { users: string[]; groups: string[] };
+
+type Props = {
+  group: string | null;
+  onClose: () => void;
+};
+
+// Member users and nested member groups of one group, as stored in guacamole_user_group_member
+export default function GroupMembersDialog({ group, onClose }: Props) {
+  const [members, setMembers] = useState<Members>({ users: [], groups: [] });
+  const [type, setType] = useState<MemberType>('user');
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const membersPath = (g: string) => `/guacamole-groups/${encodeURIComponent(g)}/members`;
+
+  // GET, POST and DELETE all answer with the resulting membership
+  const request = async (path: string, init?: RequestInit) => {
+    setBusy(true);
+    try {
+      const res = await apiFetch(path, init);
+      const jsonData = await res.json();
+      if (!jsonData.success) {
+        toast.message(jsonData.message, {
+          description: jsonData.error,
+        });
+        return false;
+      }
+      setMembers(jsonData.data);
+      return true;
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to load members');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    setMembers({ users: [], groups: [] });
+    if (group) request(membersPath(group));
+  }, [group]);
+
+  const addMember = async () => {
+    if (!group || !name.trim()) return;
+    const ok = await request(membersPath(group), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type, name: name.trim() }),
+    });
+    if (ok) setName('');
+  };
+
+  const removeMember = (memberType: MemberType, member: string) =>
+    group &&
+    request(`${membersPath(group)}/${memberType}/${encodeURIComponent(member)}`, { method: 'DELETE' });
+
+  const renderList = (memberType: MemberType, names: string[]) => (
+    <div>
+      <h4 className="font-semibold mb-1">{memberType === 'user' ? 'Users' : 'Groups'}</h4>
+      {names.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        <ul className="space-y-1">
+          {names.map((n) => (
+            <li key={n} className="flex items-center justify-between text-sm">
+              <span className="truncate">{n}</span>
+              <Button variant="outline" size="sm" disabled={busy} onClick={() => removeMember(memberType, n)}>
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={Boolean(group)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Members of {group}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-2">
+          {renderList('user', members.users)}
+          {renderList('group', members.groups)}
+        </div>
+
+        <div className="flex gap-2 items-center">
+          <Select value={type} onValueChange={(v) => setType(v as MemberType)}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="user">User</SelectItem>
+              <SelectItem value="group">Group</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder={type === 'user' ? 'username' : 'group name'}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addMember()}
+          />
+          <Button onClick={addMember} disabled={busy || !name.trim()}>
+            Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
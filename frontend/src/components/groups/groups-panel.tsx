@@ -30,9 +30,21 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { apiFetch } from '@/lib/api';
+import GroupMembersDialog from '@/components/groups/group-members-dialog';
+import GroupAttributesDialog from '@/components/groups/group-attributes-dialog';
 
 type GroupRow = { name: string; disabled: boolean };
 
+// GET /guacamole-groups/:name/impact
+type DeletionImpact = {
+  ips: number;
+  leases: number;
+  pools: number;
+  members: { users: string[]; groups: string[] };
+  permissions: { on_group: number; held: number };
+};
+
 const CreateGroupSchema = z.object({
   name: z.string().min(1, { message: 'Group name is required' }).trim(),
 });
@@ -44,6 +56,16 @@ export default function GroupsPanel() {
   // delete confirmation
   const [toDelete, setToDelete] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [impact, setImpact] = useState<DeletionImpact | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+
+  // membership and attributes dialogs
+  const [membersOf, setMembersOf] = useState<string | null>(null);
+  const [attributesOf, setAttributesOf] = useState<string | null>(null);
+
+  // rename dialog
+  const [toRename, setToRename] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
 
   const form = useForm<z.infer<typeof CreateGroupSchema>>({
     resolver: zodResolver(CreateGroupSchema),
@@ -53,7 +75,7 @@ export default function GroupsPanel() {
   const loadGroups = async () => {
     setLoading(true);
     try {
-      const res = await fetch('http://localhost:3000/api/guacamole-groups', { cache: 'no-store' });
+      const res = await apiFetch('/guacamole-groups');
 
       const jsonData = await res.json();
       if (!jsonData.success) {
@@ -76,7 +98,7 @@ export default function GroupsPanel() {
   }, []);
 
   async function onCreate(data: z.infer<typeof CreateGroupSchema>) {
-    const res = await fetch('http://localhost:3000/api/guacamole-groups', {
+    const res = await apiFetch('/guacamole-groups', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ name: data.name }),
@@ -94,13 +116,22 @@ export default function GroupsPanel() {
     await loadGroups();
   }
 
-  const confirmDelete = (name: string) => setToDelete(name);
+  const confirmDelete = async (name: string) => {
+    setToDelete(name);
+    setImpact(null);
+    setReassignTo('');
+    const res = await apiFetch(`/guacamole-groups/${encodeURIComponent(name)}/impact`);
+    const jsonData = await res.json();
+    if (jsonData.success) setImpact(jsonData.data);
+  };
   const cancelDelete = () => setToDelete(null);
 
   const deleteGroup = async (name: string) => {
     setIsDeleting(true);
     try {
-      const res = await fetch(`http://localhost:3000/api/guacamole-groups/${encodeURIComponent(name)}`, {
+      const params = new URLSearchParams({ confirm: 'true' });
+      if (reassignTo) params.set('reassignTo', reassignTo);
+      const res = await apiFetch(`/guacamole-groups/${encodeURIComponent(name)}?${params}`, {
         method: 'DELETE',
       });
 
@@ -120,6 +151,31 @@ export default function GroupsPanel() {
     }
   };
 
+  // PATCH a group; a rename also moves its IP rows and pools to the new name
+  const updateGroup = async (name: string, changes: { name?: string; disabled?: boolean }) => {
+    const res = await apiFetch(`/guacamole-groups/${encodeURIComponent(name)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+
+    const jsonData = await res.json();
+    if (!jsonData.success) {
+      toast.message(jsonData.message, {
+        description: jsonData.error,
+      });
+      return false;
+    }
+    toast.success(changes.name ? `Group renamed to ${changes.name}` : 'Group updated');
+    await loadGroups();
+    return true;
+  };
+
+  const renameGroup = async () => {
+    if (!toRename || !newName.trim()) return;
+    if (await updateGroup(toRename, { name: newName.trim() })) setToRename(null);
+  };
+
   return (
     <Card className="p-4 mb-4 space-y-4">
       <h1 className="text-3xl font-bold">Create New Secure Machine User Groups</h1>
@@ -167,7 +223,30 @@ export default function GroupsPanel() {
                 <TableRow key={g.name}>
                   <TableCell className="font-medium truncate max-w-[200px]">{g.name}</TableCell>
                   <TableCell>{g.disabled ? 'Disabled' : 'Active'}</TableCell>
-                  <TableCell className="text-right">
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setMembersOf(g.name)}>
+                      Members
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setAttributesOf(g.name)}>
+                      Attributes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setToRename(g.name);
+                        setNewName(g.name);
+                      }}
+                    >
+                      Rename
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateGroup(g.name, { disabled: !g.disabled })}
+                    >
+                      {g.disabled ? 'Enable' : 'Disable'}
+                    </Button>
                     <Button variant="destructive" size="sm" onClick={() => confirmDelete(g.name)}>
                       Remove
                     </Button>
@@ -185,15 +264,81 @@ export default function GroupsPanel() {
         </div>
       </div>
 
+      <GroupMembersDialog group={membersOf} onClose={() => setMembersOf(null)} />
+      <GroupAttributesDialog group={attributesOf} onClose={() => setAttributesOf(null)} />
+
+      <Dialog open={Boolean(toRename)} onOpenChange={(open) => !open && setToRename(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Group</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="rename-group">New name for {toRename}</Label>
+            <Input id="rename-group" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            <p className="text-sm text-muted-foreground">
+              IP rows and pools of this group follow the new name.
+            </p>
+          </div>
+          <DialogFooter className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => setToRename(null)}>
+              Cancel
+            </Button>
+            <Button onClick={renameGroup} disabled={!newName.trim() || newName.trim() === toRename}>
+              Rename
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete confirmation dialog (shadcn Dialog) */}
       <Dialog open={Boolean(toDelete)} onOpenChange={(open) => !open && setToDelete(null)}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Confirm Remove Group</DialogTitle>
           </DialogHeader>
-          <div className="py-2 text-sm text-muted-foreground">
-            Are you sure you want to remove the group <strong>{toDelete}</strong>? This action cannot be
-            undone and any assigned IPs may be affected.
+          <div className="py-2 text-sm text-muted-foreground space-y-2">
+            <p>
+              Are you sure you want to remove the group <strong>{toDelete}</strong>? This action cannot be
+              undone.
+            </p>
+            {impact ? (
+              <ul className="list-disc list-inside">
+                <li>
+                  {impact.ips} IP row(s), {impact.leases} currently leased
+                </li>
+                <li>{impact.pools} IP pool(s)</li>
+                <li>
+                  {impact.members.users.length} member user(s), {impact.members.groups.length}{' '}
+                  member group(s)
+                </li>
+                <li>
+                  {impact.permissions.on_group} permission(s) on the group, {impact.permissions.held}{' '}
+                  held by it
+                </li>
+              </ul>
+            ) : (
+              <p>Loading impact…</p>
+            )}
+            {impact && (impact.ips > 0 || impact.pools > 0) && (
+              <div className="space-y-1">
+                <Label htmlFor="reassign-to">IP rows and pools</Label>
+                <select
+                  id="reassign-to"
+                  className="w-full rounded border border-gray-300 px-2 py-1"
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                >
+                  <option value="">Delete them with the group</option>
+                  {groups
+                    .filter((g) => g.name !== toDelete)
+                    .map((g) => (
+                      <option key={g.name} value={g.name}>
+                        Move them to {g.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            )}
           </div>
           <DialogFooter className="flex justify-end gap-3">
             <Button variant="outline" onClick={cancelDelete} disabled={isDeleting}>
@@ -202,7 +347,7 @@ export default function GroupsPanel() {
             <Button
               variant="destructive"
               onClick={() => toDelete && deleteGroup(toDelete)}
-              disabled={isDeleting}
+              disabled={isDeleting || !impact}
             >
               {isDeleting ? 'Removing…' : 'Yes, remove'}
             </Button>
@@ -0,0 +1,296 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/lib/api";
+
+type View = "sessions" | "logins";
+
+// One row of GET /guacamole-history/sessions (logins carry the same fields minus the connection)
+type HistoryRow = {
+  history_id: number;
+  username: string;
+  remote_host: string | null;
+  connection_id?: number | null;
+  connection_name?: string;
+  sharing_profile_name?: string | null;
+  start_date: string;
+  end_date: string | null;
+  active: boolean;
+  duration_seconds: number;
+  ip?: { id: number; ip: string; group_name: string; gateway: string | null } | null;
+};
+
+// Query of GET /guacamole-history/*; empty strings are left out of the request
+type HistoryQuery = {
+  page: number;
+  limit: number;
+  username: string;
+  ip: string;
+  remote_host: string;
+  from: string;
+  to: string;
+  active: "" | "true" | "false";
+};
+
+const initialQuery: HistoryQuery = {
+  page: 1,
+  limit: 50,
+  username: "",
+  ip: "",
+  remote_host: "",
+  from: "",
+  to: "",
+  active: "",
+};
+
+function formatDuration(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}h ${m}m` : m > 0 ? `${m}m ${s}s` : `${s}s`;
+}
+
+const formatDate = (d: string) => new Date(d).toLocaleString();
+
+// "Who used which secure machine IP and when": sessions from guacamole_connection_history and
+// logins from guacamole_user_history
+export default function SessionHistory() {
+  const [view, setView] = useState<View>("sessions");
+  const [query, setQuery] = useState<HistoryQuery>(initialQuery);
+  // filter inputs are applied with the Apply button so typing does not refetch on every key
+  const [filters, setFilters] = useState<HistoryQuery>(initialQuery);
+  const [rows, setRows] = useState<HistoryRow[]>([]);
+  const [meta, setMeta] = useState({ total: 0, totalPages: 0 });
+  const [loading, setLoading] = useState(false);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        // logins have no connection, so there is no IP to filter on
+        if (value === "" || (view === "logins" && key === "ip")) continue;
+        params.set(key, String(value));
+      }
+      const res = await apiFetch(`/guacamole-history/${view}?${params}`);
+      const jsonData = await res.json();
+      if (!jsonData.success) {
+        toast.message(jsonData.message, {
+          description: jsonData.error ?? Object.values(jsonData.errors ?? {}).flat().join(" "),
+        });
+        return;
+      }
+      setRows(jsonData.data);
+      setMeta(jsonData.meta);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, [query, view]);
+
+  const changeQuery = (patch: Partial<HistoryQuery>) => setQuery((q) => ({ ...q, page: 1, ...patch }));
+
+  const switchView = (next: View) => {
+    setView(next);
+    setRows([]);
+    setQuery((q) => ({ ...q, page: 1 }));
+  };
+
+  const filterInput = (key: "username" | "ip" | "remote_host", placeholder: string) => (
+    <Input
+      className="w-44"
+      placeholder={placeholder}
+      value={filters[key]}
+      onChange={(e) => setFilters((f) => ({ ...f, [key]: e.target.value }))}
+      onKeyDown={(e) => e.key === "Enter" && changeQuery({ [key]: filters[key].trim() })}
+    />
+  );
+
+  const cell = "p-2 border border-gray-300";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-3xl font-bold">History</h1>
+        <div className="flex gap-2">
+          {(["sessions", "logins"] as const).map((v) => (
+            <Button key={v} variant={view === v ? "default" : "outline"} onClick={() => switchView(v)}>
+              {v === "sessions" ? "Sessions" : "Logins"}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        {filterInput("username", "Username")}
+        {view === "sessions" && filterInput("ip", "Machine IP")}
+        {filterInput("remote_host", "Client address")}
+        <div className="flex items-center gap-2 text-sm">
+          From
+          <Input
+            type="date"
+            aria-label="From"
+            className="w-40"
+            value={filters.from}
+            onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+          />
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          To
+          <Input
+            type="date"
+            aria-label="To"
+            className="w-40"
+            value={filters.to}
+            onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+          />
+        </div>
+        <select
+          className="rounded border border-gray-300 px-2 py-1"
+          value={filters.active}
+          onChange={(e) => setFilters((f) => ({ ...f, active: e.target.value as HistoryQuery["active"] }))}
+        >
+          <option value="">Active and ended</option>
+          <option value="true">Still active</option>
+          <option value="false">Ended</option>
+        </select>
+        <Button
+          onClick={() =>
+            changeQuery({
+              username: filters.username.trim(),
+              ip: filters.ip.trim(),
+              remote_host: filters.remote_host.trim(),
+              from: filters.from,
+              to: filters.to,
+              active: filters.active,
+            })
+          }
+        >
+          Apply
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => {
+            setFilters(initialQuery);
+            setQuery({ ...initialQuery, limit: query.limit });
+          }}
+        >
+          Clear
+        </Button>
+      </div>
+
+      <div className="overflow-auto max-h-[70vh] mb-4">
+        <table className="table-auto w-full border-collapse border border-gray-300 text-sm">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr>
+              <th className={cell}>User</th>
+              {view === "sessions" && (
+                <>
+                  <th className={cell}>Connection</th>
+                  <th className={cell}>Machine IP</th>
+                </>
+              )}
+              <th className={cell}>Client address</th>
+              <th className={cell}>Started</th>
+              <th className={cell}>Ended</th>
+              <th className={cell}>Duration</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr>
+                <td
+                  className={`${cell} text-center text-muted-foreground`}
+                  colSpan={view === "sessions" ? 7 : 5}
+                >
+                  {loading ? "Loading…" : "No history matches these filters."}
+                </td>
+              </tr>
+            )}
+            {rows.map((row) => (
+              <tr key={row.history_id}>
+                <td className={cell}>{row.username}</td>
+                {view === "sessions" && (
+                  <>
+                    <td className={cell}>
+                      {row.connection_name}
+                      {row.sharing_profile_name && (
+                        <span className="text-muted-foreground"> (shared: {row.sharing_profile_name})</span>
+                      )}
+                    </td>
+                    <td className={cell}>
+                      {row.ip ? (
+                        <Link
+                          className="underline"
+                          href={`/?search=${encodeURIComponent(row.ip.ip)}`}
+                          title={`Group ${row.ip.group_name}`}
+                        >
+                          {row.ip.ip}
+                        </Link>
+                      ) : (
+                        <span className="text-muted-foreground">unknown</span>
+                      )}
+                    </td>
+                  </>
+                )}
+                <td className={cell}>{row.remote_host ?? "—"}</td>
+                <td className={cell}>{formatDate(row.start_date)}</td>
+                <td className={cell}>
+                  {row.end_date ? (
+                    formatDate(row.end_date)
+                  ) : (
+                    <span className="rounded bg-green-100 px-1.5 text-green-800">active</span>
+                  )}
+                </td>
+                <td className={cell}>{formatDuration(row.duration_seconds)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-end gap-3 text-sm">
+        <span className="text-muted-foreground">
+          {meta.total} record(s) · page {query.page} of {Math.max(meta.totalPages, 1)}
+        </span>
+        <select
+          className="rounded border border-gray-300 px-2 py-1"
+          value={query.limit}
+          onChange={(e) => changeQuery({ limit: Number(e.target.value) })}
+        >
+          {[25, 50, 100, 250].map((n) => (
+            <option key={n} value={n}>
+              {n} per page
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={query.page <= 1}
+          onClick={() => setQuery((q) => ({ ...q, page: q.page - 1 }))}
+        >
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={query.page >= meta.totalPages}
+          onClick={() => setQuery((q) => ({ ...q, page: q.page + 1 }))}
+        >
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
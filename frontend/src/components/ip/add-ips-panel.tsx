@@ -10,6 +10,8 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
 
 import {
   Dialog,
@@ -31,6 +33,7 @@ import {
 } from "@/components/ui/form";
 
 import { Plus, X } from "lucide-react";
+import { apiFetch } from "@/lib/api";
 
 type GroupOption = { name: string };
 
@@ -39,6 +42,28 @@ type Props = {
   refreshFromBackend: () => Promise<void>;
 };
 
+type CreatePayload = {
+  count: number;
+  allocations: { amount: number; group: string; gateway: string }[];
+  ips: string[];
+  connectionTemplate?: ConnectionTemplate;
+};
+
+// Sent as `connectionTemplate` to also create one connection per new IP (hostname = the IP)
+type ConnectionTemplate = {
+  protocol: string;
+  name_pattern: string;
+  parameters: Record<string, string>;
+};
+
+const defaultPorts: Record<string, string> = { rdp: "3389", vnc: "5900", ssh: "22" };
+
+// Result of POST /guacamole-ip?dryRun=true
+type Preview = {
+  rows: { ip: string; group_name: string; gateway: string; pool_name: string; connection_name?: string }[];
+  conflicts: { group: string; ip?: string; reason: string }[];
+};
+
 /** simple IPv4 validator used in zod refine and UI */
 const isIPv4 = (v: string) => {
   const parts = v.split(".");
@@ -104,6 +129,17 @@ type FormValues = z.infer<typeof FormSchema>;
 export default function AddIPsPanelForm({ groups, refreshFromBackend }: Props) {
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [provision, setProvision] = useState(false);
+  const [template, setTemplate] = useState({
+    protocol: "rdp",
+    port: defaultPorts.rdp,
+    name_pattern: "sm-{ip}",
+    username: "",
+    password: "",
+  });
+  // dry-run result shown in the confirm dialog, with the payload it was computed for
+  const [preview, setPreview] = useState<{ payload: CreatePayload; plan: Preview } | null>(null);
 
   const defaultGroup = groups?.[0]?.name ?? "";
 
@@ -116,7 +152,7 @@ export default function AddIPsPanelForm({ groups, refreshFromBackend }: Props) {
     mode: "onChange",
   });
 
-  const { control, handleSubmit, watch, reset, getValues } = form;
+  const { control, handleSubmit, watch, reset } = form;
   const { fields, append, remove } = useFieldArray({ control, name: "allocations" });
 
   const total = useMemo(() => {
@@ -204,19 +240,54 @@ export default function AddIPsPanelForm({ groups, refreshFromBackend }: Props) {
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
-  const onCreateClick = (values: FormValues) => {
+  const connectionTemplate = (): ConnectionTemplate | undefined =>
+    provision
+      ? {
+          protocol: template.protocol,
+          name_pattern: template.name_pattern,
+          parameters: Object.fromEntries(
+            Object.entries({
+              port: template.port,
+              username: template.username,
+              password: template.password,
+            }).filter(([, v]) => v !== "")
+          ),
+        }
+      : undefined;
+
+  const onCreateClick = async (values: FormValues) => {
     const result = buildValidatedPayload(values);
     if (!result.ok) {
       toast.error(result.message);
       return;
     }
-    setConfirmOpen(true);
+    // previewed with the template so the plan shows the connections that would be created
+    const payload: CreatePayload = { ...result.payload, connectionTemplate: connectionTemplate() };
+
+    // Ask the server what it would create before committing anything
+    try {
+      setIsPreviewing(true);
+      const res = await apiFetch("/guacamole-ip?dryRun=true", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const jsonData = await res.json().catch(() => ({}));
+      if (!jsonData.success) {
+        toast.error(jsonData.error ?? jsonData.message ?? "Failed to preview IPs");
+        return;
+      }
+      setPreview({ payload, plan: jsonData.data });
+      setConfirmOpen(true);
+    } finally {
+      setIsPreviewing(false);
+    }
   };
 
-  const handleCreateConfirmed = async (payload: any) => {
+  const handleCreateConfirmed = async (payload: CreatePayload) => {
     try {
       setIsSubmitting(true);
-      const res = await fetch("http://localhost:3000/api/guacamole-ip", {
+      const res = await apiFetch("/guacamole-ip", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
@@ -224,7 +295,7 @@ export default function AddIPsPanelForm({ groups, refreshFromBackend }: Props) {
       const jsonData = await res.json().catch(() => ({}));
       if (!jsonData.success) {
         // prefer error message if present
-        toast.error(jsonData.message ?? "Failed to create IPs");
+        toast.error(jsonData.error ?? jsonData.message ?? "Failed to create IPs");
       } else {
         toast.success(jsonData.message ?? "IPs created successfully.");
         reset({
@@ -377,9 +448,58 @@ export default function AddIPsPanelForm({ groups, refreshFromBackend }: Props) {
             </div>
           </div>
 
+          <div className="space-y-3 rounded-md border p-3">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Checkbox checked={provision} onCheckedChange={(checked) => setProvision(checked === true)} />
+              Also create a Guacamole connection for each new IP (the group gets READ on it)
+            </label>
+            {provision && (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+                <Select
+                  value={template.protocol}
+                  onValueChange={(protocol) =>
+                    setTemplate((t) => ({ ...t, protocol, port: defaultPorts[protocol] ?? t.port }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(defaultPorts).map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {p.toUpperCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="port"
+                  value={template.port}
+                  onChange={(e) => setTemplate((t) => ({ ...t, port: e.target.value }))}
+                />
+                <Input
+                  placeholder="name pattern, e.g. sm-{ip}"
+                  value={template.name_pattern}
+                  onChange={(e) => setTemplate((t) => ({ ...t, name_pattern: e.target.value }))}
+                />
+                <Input
+                  placeholder="username (optional)"
+                  value={template.username}
+                  onChange={(e) => setTemplate((t) => ({ ...t, username: e.target.value }))}
+                />
+                <Input
+                  type="password"
+                  placeholder="password (optional)"
+                  value={template.password}
+                  onChange={(e) => setTemplate((t) => ({ ...t, password: e.target.value }))}
+                />
+              </div>
+            )}
+          </div>
+
           <div className="flex justify-end">
-            <Button type="submit" disabled={isSubmitting}>
-              Create IP Rows
+            <Button type="submit" disabled={isSubmitting || isPreviewing}>
+              {isPreviewing ? "Checking…" : "Create IP Rows"}
             </Button>
           </div>
         </form>
@@ -391,47 +511,61 @@ export default function AddIPsPanelForm({ groups, refreshFromBackend }: Props) {
           <DialogHeader>
             <DialogTitle>Confirm creation</DialogTitle>
             <DialogDescription>
-              You are about to create <strong>{total}</strong> IPs across the following allocations:
+              The server would create <strong>{preview?.plan.rows.length ?? 0}</strong> of the{" "}
+              <strong>{total}</strong> requested IPs:
             </DialogDescription>
           </DialogHeader>
 
-          <div className="mb-4">
-            <ul className="list-disc list-inside">
-              {(() => {
-                const values = getValues();
-                const finalAlloc = values.allocations
-                  .map((a) => ({
-                    amount: Number(a.amount || 0),
-                    group: a.group,
-                    firstIp: a.firstIp,
-                    gateway: a.gateway,
-                  }))
-                  .filter((a) => a.amount > 0);
-                return finalAlloc.map((a, i) => (
-                  <li key={i} className="text-sm">
-                    {a.amount} IP(s) starting at <strong>{a.firstIp}</strong> → <strong>{a.group}</strong>{" "}
-                    <span className="text-muted-foreground"> (gw: {a.gateway})</span>
-                  </li>
-                ));
-              })()}
-            </ul>
+          <div className="mb-4 max-h-80 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>IP</TableHead>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Gateway</TableHead>
+                  <TableHead>Pool</TableHead>
+                  {preview?.payload.connectionTemplate && <TableHead>Connection</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview?.plan.rows.map((r) => (
+                  <TableRow key={r.ip}>
+                    <TableCell className="font-medium">{r.ip}</TableCell>
+                    <TableCell>{r.group_name}</TableCell>
+                    <TableCell>{r.gateway}</TableCell>
+                    <TableCell>{r.pool_name}</TableCell>
+                    {preview.payload.connectionTemplate && <TableCell>{r.connection_name}</TableCell>}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
           </div>
 
+          {preview && preview.plan.conflicts.length > 0 && (
+            <div className="mb-4 text-sm text-destructive">
+              <p className="font-medium">
+                {preview.plan.conflicts.length} conflict(s) must be resolved before creating:
+              </p>
+              <ul className="list-disc list-inside">
+                {preview.plan.conflicts.map((c) => (
+                  <li key={`${c.group}-${c.ip ?? ""}-${c.reason}`}>
+                    {c.group}: {c.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <DialogFooter className="flex justify-end gap-3">
             <Button variant="outline" onClick={() => setConfirmOpen(false)} disabled={isSubmitting}>
               Cancel
             </Button>
             <Button
               onClick={async () => {
-                const values = getValues();
-                const v = buildValidatedPayload(values as FormValues);
-                if (!v.ok) {
-                  toast.error(v.message);
-                  return;
-                }
-                await handleCreateConfirmed(v.payload);
+                if (!preview) return;
+                await handleCreateConfirmed(preview.payload);
               }}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !preview || preview.plan.conflicts.length > 0}
             >
               Confirm & Create
             </Button>
@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/lib/api";
+
+type ReportType = "pool-utilisation" | "ip-sessions" | "user-sessions";
+type ReportFormat = "json" | "csv" | "pdf";
+
+// Body of GET /guacamole-reports/:type?format=json
+type UsageReport = {
+  type: ReportType;
+  title: string;
+  period: { from: string; to: string } | null;
+  generated_at: string;
+  columns: { key: string; label: string }[];
+  rows: Record<string, string | number | null>[];
+};
+
+const reportTypes: { value: ReportType; label: string }[] = [
+  { value: "pool-utilisation", label: "IP pool utilisation per group" },
+  { value: "ip-sessions", label: "Session hours per IP" },
+  { value: "user-sessions", label: "Session hours per user" },
+];
+
+// Error body of the API: `error` for failures, `errors` (field -> messages) for invalid input
+type ApiError = { message: string; error?: string; errors?: Record<string, string[]> };
+
+const formatDate = (d: string) => new Date(d).toLocaleString();
+
+// Usage reports: previewed as a table, downloadable as CSV, JSON or a printable PDF
+export default function UsageReports() {
+  const [type, setType] = useState<ReportType>("pool-utilisation");
+  // empty dates let the server default to the last 30 days
+  const [period, setPeriod] = useState({ from: "", to: "" });
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const reportUrl = (format: ReportFormat) => {
+    const params = new URLSearchParams({ format });
+    if (type !== "pool-utilisation") {
+      if (period.from) params.set("from", period.from);
+      if (period.to) params.set("to", period.to);
+    }
+    return `/guacamole-reports/${type}?${params}`;
+  };
+
+  const showError = (jsonData: ApiError) =>
+    toast.message(jsonData.message, {
+      description: jsonData.error ?? Object.values(jsonData.errors ?? {}).flat().join(" "),
+    });
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch(reportUrl("json"));
+      const jsonData = await res.json();
+      if (!jsonData.success) {
+        showError(jsonData);
+        return;
+      }
+      setReport(jsonData.data);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to load report");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setReport(null);
+    loadReport();
+  }, [type]);
+
+  const download = async (format: ReportFormat) => {
+    try {
+      const res = await apiFetch(reportUrl(format));
+      if (!res.ok) {
+        showError(await res.json());
+        return;
+      }
+      // JSON downloads carry just the report, not the API envelope
+      const blob =
+        format === "json" ? new Blob([JSON.stringify((await res.json()).data, null, 2)]) : await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${type}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to download report");
+    }
+  };
+
+  const cell = "p-2 border border-gray-300";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-3xl font-bold">Reports</h1>
+        <div className="flex gap-2">
+          {(["csv", "json", "pdf"] as const).map((format) => (
+            <Button key={format} variant="outline" onClick={() => download(format)}>
+              {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <select
+          className="rounded border border-gray-300 px-2 py-1"
+          value={type}
+          onChange={(e) => setType(e.target.value as ReportType)}
+        >
+          {reportTypes.map((t) => (
+            <option key={t.value} value={t.value}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        {type !== "pool-utilisation" && (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              From
+              <Input
+                type="date"
+                aria-label="From"
+                className="w-40"
+                value={period.from}
+                onChange={(e) => setPeriod((p) => ({ ...p, from: e.target.value }))}
+              />
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              To
+              <Input
+                type="date"
+                aria-label="To"
+                className="w-40"
+                value={period.to}
+                onChange={(e) => setPeriod((p) => ({ ...p, to: e.target.value }))}
+              />
+            </div>
+          </>
+        )}
+        <Button onClick={loadReport} disabled={loading}>
+          {loading ? "Loading…" : "Run"}
+        </Button>
+      </div>
+
+      {report && (
+        <p className="mb-2 text-sm text-muted-foreground">
+          {report.period
+            ? `${formatDate(report.period.from)} – ${formatDate(report.period.to)}`
+            : "Current state"}{" "}
+          · generated {formatDate(report.generated_at)}
+        </p>
+      )}
+
+      <div className="overflow-auto max-h-[70vh]">
+        <table className="table-auto w-full border-collapse border border-gray-300 text-sm">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr>
+              {report?.columns.map((c) => (
+                <th key={c.key} className={cell}>
+                  {c.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {(!report || report.rows.length === 0) && (
+              <tr>
+                <td
+                  className={`${cell} text-center text-muted-foreground`}
+                  colSpan={report?.columns.length ?? 1}
+                >
+                  {loading ? "Loading…" : "No data for this report."}
+                </td>
+              </tr>
+            )}
+            {report?.rows.map((row, i) => (
+              <tr key={`${report.type}-${i}`}>
+                {report.columns.map((c) => (
+                  <td key={c.key} className={cell}>
+                    {row[c.key] ?? "—"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+export const API_BASE = "http://localhost:3000/api";
+
+const ACCESS_TOKEN_KEY = "sm.accessToken";
+const REFRESH_TOKEN_KEY = "sm.refreshToken";
+const USER_KEY = "sm.user";
+
+/** Fired on window when the session can no longer be refreshed. */
+export const LOGOUT_EVENT = "auth:logout";
+
+type Tokens = { accessToken: string; refreshToken: string };
+
+export type Role = "admin" | "operator" | "read-only";
+
+export type CurrentUser = {
+  userId: string;
+  username: string;
+  email?: string | null;
+  role: Role;
+  permissions: string[];
+};
+
+export function getAccessToken() {
+  return typeof window === "undefined" ? null : window.localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+/** The signed-in user as returned at login; the server still enforces every permission. */
+export function getCurrentUser(): CurrentUser | null {
+  if (typeof window === "undefined") return null;
+  const raw = window.localStorage.getItem(USER_KEY);
+  return raw ? (JSON.parse(raw) as CurrentUser) : null;
+}
+
+/** ADMINISTER implies every other system permission. */
+export function hasPermission(user: CurrentUser | null, permission: string) {
+  return Boolean(user && (user.permissions.includes("ADMINISTER") || user.permissions.includes(permission)));
+}
+
+function setTokens({ accessToken, refreshToken }: Tokens) {
+  window.localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  window.localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+}
+
+export function logout() {
+  window.localStorage.removeItem(ACCESS_TOKEN_KEY);
+  window.localStorage.removeItem(REFRESH_TOKEN_KEY);
+  window.localStorage.removeItem(USER_KEY);
+  window.dispatchEvent(new Event(LOGOUT_EVENT));
+}
+
+export async function login(username: string, password: string) {
+  const res = await fetch(`${API_BASE}/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  const jsonData = await res.json().catch(() => ({}));
+  if (!jsonData.success) throw new Error(jsonData.error ?? jsonData.message ?? "Login failed");
+  setTokens(jsonData.data);
+  window.localStorage.setItem(USER_KEY, JSON.stringify(jsonData.data.user));
+}
+
+async function refreshSession() {
+  const refreshToken = window.localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+
+  const res = await fetch(`${API_BASE}/auth/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  const jsonData = await res.json().catch(() => ({}));
+  if (!jsonData.success) return false;
+  setTokens(jsonData.data);
+  return true;
+}
+
+/**
+ * fetch() against the backend API with the access token attached.
+ * On a 401 the session is refreshed once and the request retried; if that fails the user is logged out.
+ */
+export async function apiFetch(path: string, init: RequestInit = {}) {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    const token = getAccessToken();
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(`${API_BASE}${path}`, { cache: "no-store", ...init, headers });
+  };
+
+  let res = await send();
+  if (res.status === 401) {
+    if (await refreshSession()) {
+      res = await send();
+    }
+    if (res.status === 401) logout();
+  }
+  return res;
+}